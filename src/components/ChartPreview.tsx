@@ -1,18 +1,46 @@
-import { useEffect, useRef } from 'react';
-import embed, { type VisualizationSpec } from 'vega-embed';
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import embed, { type Result, type VisualizationSpec } from 'vega-embed';
 
 interface ChartPreviewProps {
   spec: VisualizationSpec;
   data: any[];
   width?: number | string;
   height?: number | string;
+  exportable?: boolean; // Show vega-embed's export actions
+  onError?: (error: Error) => void;
 }
 
-export function ChartPreview({ spec, data, width = '100%', height = 400 }: ChartPreviewProps) {
+/**
+ * Handle for reaching this preview's own chart (several widgets may share a page)
+ */
+export interface ChartPreviewHandle {
+  getContainer: () => HTMLDivElement | null;
+  getView: () => Result['view'] | null;
+  getVegaSpec: () => Result['vgSpec'] | null; // The compiled spec the view was built from
+}
+
+export const ChartPreview = forwardRef<ChartPreviewHandle, ChartPreviewProps>(function ChartPreview(
+  { spec, data, width = '100%', height = 400, exportable = true, onError },
+  ref
+) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<Result['view'] | null>(null);
+  const vgSpecRef = useRef<Result['vgSpec'] | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    getContainer: () => containerRef.current,
+    getView: () => viewRef.current,
+    getVegaSpec: () => vgSpecRef.current,
+  }), []);
+
+  // Keep the latest handler in a ref so inline callbacks don't trigger a re-render of the chart
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
 
   useEffect(() => {
     if (!containerRef.current) return;
+    let cancelled = false;
+    let result: Result | null = null;
 
     // Clear previous chart
     containerRef.current.innerHTML = '';
@@ -52,20 +80,29 @@ export function ChartPreview({ spec, data, width = '100%', height = 400 }: Chart
     // Embed the chart
     embed(containerRef.current, specToRender, {
       actions: {
-        export: true,
+        export: exportable,
         source: false,
         compiled: false,
         editor: false,
       },
       renderer: 'canvas',
       mode: 'vega-lite',
-    }).then(() => {
+    }).then((embedResult) => {
+      if (cancelled) {
+        embedResult.finalize();
+        return;
+      }
+      result = embedResult;
+      viewRef.current = embedResult.view;
+      vgSpecRef.current = embedResult.vgSpec;
       if (process.env.NODE_ENV === 'development') {
         console.log('Chart rendered successfully');
       }
     }).catch((error) => {
+      if (cancelled) return;
       // Always log errors, but sanitize sensitive information
       console.error('Error rendering chart:', error.message || error);
+      onErrorRef.current?.(error instanceof Error ? error : new Error(String(error)));
       if (process.env.NODE_ENV === 'development') {
         console.error('Spec:', spec);
         console.error('Data rows:', data.length);
@@ -83,12 +120,18 @@ export function ChartPreview({ spec, data, width = '100%', height = 400 }: Chart
         `;
       }
     });
-  }, [spec, data]);
+
+    return () => {
+      cancelled = true;
+      viewRef.current = null;
+      vgSpecRef.current = null;
+      result?.finalize();
+    };
+  }, [spec, data, exportable]);
 
   return (
     <div
       ref={containerRef}
-      id="vega-chart-container"
       style={{
         width: typeof width === 'number' ? `${width}px` : width,
         height: typeof height === 'number' ? `${height}px` : height,
@@ -96,4 +139,4 @@ export function ChartPreview({ spec, data, width = '100%', height = 400 }: Chart
       }}
     />
   );
-}
+});
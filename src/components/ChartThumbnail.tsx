@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import embed, { type Result, type VisualizationSpec } from 'vega-embed';
+
+interface ChartThumbnailProps {
+  spec: VisualizationSpec;
+  data: any[];
+  width?: number;
+  height?: number;
+}
+
+// Just the marks: labels, titles and legends are unreadable at this size
+const THUMBNAIL_CONFIG = {
+  axis: { labels: false, title: false, ticks: false, domain: false, grid: false },
+  legend: { disable: true },
+  view: { stroke: null },
+  header: { labels: false, title: false },
+};
+
+/**
+ * Small, non-interactive render of a spec, e.g. for chart suggestions
+ */
+export function ChartThumbnail({ spec, data, width = 140, height = 80 }: ChartThumbnailProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    let cancelled = false;
+    let result: Result | null = null;
+    setFailed(false);
+
+    const { title: _title, ...rest } = spec as any;
+    const thumbnailSpec = {
+      ...rest,
+      width,
+      height,
+      autosize: { type: 'fit', contains: 'padding' },
+      padding: 2,
+      config: { ...rest.config, ...THUMBNAIL_CONFIG },
+      // Clone: Immer freezes store data, but Vega needs to add Symbol properties
+      data: { values: JSON.parse(JSON.stringify(data)) },
+    };
+
+    embed(containerRef.current, thumbnailSpec, { actions: false, renderer: 'canvas', mode: 'vega-lite', tooltip: false })
+      .then((embedResult) => {
+        if (cancelled) {
+          embedResult.finalize();
+          return;
+        }
+        result = embedResult;
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      result?.finalize();
+    };
+  }, [spec, data, width, height]);
+
+  return (
+    <div className="relative pointer-events-none" style={{ width, height }} aria-hidden="true">
+      <div ref={containerRef} />
+      {failed && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-400">No preview</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+
+interface CommitInputProps {
+  value: string | number | undefined;
+  onCommit: (value: string | undefined) => void;
+  type?: 'text' | 'number';
+  placeholder?: string;
+}
+
+/**
+ * Input that keeps a local draft and only commits on blur/Enter,
+ * so each edit produces a single undo snapshot instead of one per keystroke
+ */
+export function CommitInput({ value, onCommit, type = 'text', placeholder }: CommitInputProps) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const current = value === undefined ? '' : String(value);
+    if (draft !== current) {
+      onCommit(draft.trim() === '' ? undefined : draft);
+    }
+  };
+
+  return (
+    <input
+      type={type}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+      placeholder={placeholder}
+      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+    />
+  );
+}
+
+/**
+ * Parse a committed number input; undefined when empty or not a number
+ */
+export const toNumber = (v: string | undefined) => {
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import type { ImageExportOptions, ImageFormat, PdfPageSize } from '@/types';
+
+const FORMATS: { id: ImageFormat; label: string; description: string }[] = [
+  { id: 'png', label: 'PNG', description: 'Image for slides, documents and chat' },
+  { id: 'svg', label: 'SVG', description: 'Vector image for the web and design tools' },
+  { id: 'pdf', label: 'PDF', description: 'Vector page for print and reports' },
+];
+
+const PAGE_SIZES: { id: PdfPageSize; label: string }[] = [
+  { id: 'a4', label: 'A4' },
+  { id: 'letter', label: 'US Letter' },
+  { id: 'a3', label: 'A3' },
+  { id: 'legal', label: 'US Legal' },
+  { id: 'fit', label: 'Fit to chart' },
+];
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+interface ExportDialogProps {
+  onExport: (format: ImageFormat, options: ImageExportOptions) => Promise<Blob>;
+  onClose: () => void;
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export options for the chart: PNG scale and background, SVG, and a vector PDF page with optional text
+ */
+export function ExportDialog({ onExport, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [orientation, setOrientation] = useState<'auto' | 'portrait' | 'landscape'>('auto');
+  const [margin, setMargin] = useState(15);
+  const [title, setTitle] = useState('');
+  const [caption, setCaption] = useState('');
+  const [footer, setFooter] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleExport = async () => {
+    const options: ImageExportOptions =
+      format === 'pdf'
+        ? {
+            pageSize,
+            orientation: orientation === 'auto' ? undefined : orientation,
+            margin,
+            title,
+            caption,
+            footer,
+          }
+        : { scale: format === 'png' ? scale : undefined, transparent };
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await onExport(format, options);
+      download(blob, `chart.${format}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-start justify-center p-8 bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-80 bg-white rounded shadow-lg p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="export-dialog-title" className="text-sm font-semibold">
+          Export chart
+        </h3>
+
+        <div className="flex gap-1">
+          {FORMATS.map((f) => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              aria-pressed={format === f.id}
+              title={f.description}
+              className={`flex-1 px-2 py-1 rounded border text-xs ${
+                format === f.id ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">{FORMATS.find((f) => f.id === format)?.description}</p>
+
+        {format === 'png' && (
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Scale</label>
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+            >
+              {PNG_SCALES.map((s) => (
+                <option key={s} value={s}>
+                  {s === 1 ? '1× (screen size)' : `${s}×`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {format !== 'pdf' && (
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={transparent}
+              onChange={(e) => setTransparent(e.target.checked)}
+              className="w-4 h-4"
+            />
+            Transparent background
+          </label>
+        )}
+
+        {format === 'pdf' && (
+          <>
+            <p className="text-xs text-gray-500">
+              PDF text uses the standard PDF fonts, so characters outside Western European alphabets (Cyrillic,
+              Greek, CJK...) don't print. Use SVG or PNG for charts with such labels.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-xs text-gray-600 block mb-1">Page size</label>
+                <select
+                  value={pageSize}
+                  onChange={(e) => setPageSize(e.target.value as PdfPageSize)}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+                >
+                  {PAGE_SIZES.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-gray-600 block mb-1">Orientation</label>
+                <select
+                  value={orientation}
+                  onChange={(e) => setOrientation(e.target.value as 'auto' | 'portrait' | 'landscape')}
+                  disabled={pageSize === 'fit'}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white disabled:opacity-50"
+                >
+                  <option value="auto">Match chart</option>
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Margin (mm)</label>
+              <input
+                type="number"
+                min={0}
+                max={50}
+                value={margin}
+                onChange={(e) => setMargin(Math.max(0, Number(e.target.value) || 0))}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Title</label>
+              <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Optional"
+                className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Caption</label>
+              <textarea
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Optional, shown below the chart"
+                rows={2}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Footer</label>
+              <input
+                value={footer}
+                onChange={(e) => setFooter(e.target.value)}
+                placeholder="Optional, e.g. source or date"
+                className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-300 rounded">Export failed: {error}</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {exporting ? 'Exporting…' : `Download ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DataField } from '@/types';
+import { getFieldType } from '@/utils/fieldInference';
+import { FieldSparkline, describeFieldStats } from './FieldSparkline';
+
+interface FieldPickerProps {
+  value?: string;
+  fields: DataField[];
+  onChange: (field: string) => void; // '' when cleared
+  placeholder?: string;
+}
+
+/**
+ * Field dropdown that shows each field's type and distribution sparkline
+ * (a native <select> can't render the sparklines)
+ */
+export function FieldPicker({ value, fields, onChange, placeholder = '— Select field —' }: FieldPickerProps) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const selected = fields.find((f) => f.name === value);
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const choose = (name: string) => {
+    onChange(name);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white flex items-center gap-2 text-left"
+        title={selected ? describeFieldStats(selected) : undefined}
+      >
+        {selected ? (
+          <FieldOption field={selected} />
+        ) : (
+          <span className="flex-1 text-gray-500">{value || placeholder}</span>
+        )}
+        <span className="text-gray-400 text-xs">▾</span>
+      </button>
+
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute z-30 mt-1 w-full max-h-64 overflow-auto bg-white border border-gray-300 rounded shadow-lg text-sm"
+        >
+          <li
+            role="option"
+            aria-selected={!value}
+            onClick={() => choose('')}
+            className="px-2 py-1.5 text-gray-500 cursor-pointer hover:bg-gray-100"
+          >
+            {placeholder}
+          </li>
+          {fields.map((field) => (
+            <li
+              key={field.name}
+              role="option"
+              aria-selected={field.name === value}
+              onClick={() => choose(field.name)}
+              title={describeFieldStats(field)}
+              className={`px-2 py-1.5 flex items-center gap-2 cursor-pointer hover:bg-gray-100 ${
+                field.name === value ? 'bg-blue-50' : ''
+              }`}
+            >
+              <FieldOption field={field} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function FieldOption({ field }: { field: DataField }) {
+  return (
+    <>
+      <span className="flex-1 truncate">{field.name}</span>
+      <FieldSparkline field={field} />
+      <span className="w-4 text-xs text-gray-500 text-center">{getFieldType(field)[0].toUpperCase()}</span>
+    </>
+  );
+}
@@ -0,0 +1,68 @@
+import type { DataField } from '@/types';
+import { getFieldType } from '@/utils/fieldInference';
+
+interface FieldSparklineProps {
+  field: DataField;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Tiny bar chart of a field's distribution: histogram for numbers/dates, top values for categories
+ */
+export function FieldSparkline({ field, width = 48, height = 14 }: FieldSparklineProps) {
+  const counts = field.stats?.histogram?.map((b) => b.count) ?? field.stats?.topValues?.map((v) => v.count) ?? [];
+  if (counts.length === 0) return null;
+
+  const max = Math.max(1, ...counts);
+  const barWidth = width / counts.length;
+  const type = getFieldType(field);
+  const color = type === 'quantitative' || type === 'temporal' ? '#3b82f6' : '#8b5cf6';
+
+  return (
+    <svg width={width} height={height} className="flex-shrink-0" aria-hidden="true">
+      {counts.map((count, i) => {
+        // Keep non-empty bins visible even next to a dominant one
+        const h = count === 0 ? 0 : Math.max(1, (count / max) * height);
+        return (
+          <rect
+            key={i}
+            x={i * barWidth}
+            y={height - h}
+            width={Math.max(1, barWidth - 1)}
+            height={h}
+            fill={color}
+            opacity={field.stats?.complete ? 1 : 0.5}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * One-line summary of a field's stats, used for tooltips next to sparklines
+ */
+export function describeFieldStats(field: DataField): string {
+  const stats = field.stats;
+  if (!stats) return getFieldType(field);
+
+  const type = getFieldType(field);
+  const format = (n: number) =>
+    type === 'temporal' ? new Date(n).toISOString().slice(0, 10) : Number(n.toPrecision(4)).toLocaleString();
+
+  const parts: string[] = [type];
+  if (stats.min !== undefined && stats.max !== undefined) {
+    parts.push(`${format(stats.min)} – ${format(stats.max)}`);
+  }
+  if (stats.mean !== undefined && type === 'quantitative') parts.push(`mean ${format(stats.mean)}`);
+  if (stats.median !== undefined) parts.push(`median ${format(stats.median)}`);
+  if (stats.topValues?.length) {
+    parts.push(`top: ${stats.topValues.slice(0, 3).map((v) => `${v.value} (${v.count})`).join(', ')}`);
+  }
+  if (stats.unique !== undefined) parts.push(`${stats.unique.toLocaleString()} unique`);
+  if (stats.nulls) parts.push(`${stats.nulls.toLocaleString()} nulls`);
+  if (!stats.complete) parts.push('(sampled)');
+
+  return parts.join(' • ');
+}
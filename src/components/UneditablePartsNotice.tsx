@@ -0,0 +1,34 @@
+import { useWidgetStore } from '@/store/widgetStore';
+import { detectCustomSpec, listUneditableParts } from '@/utils/specParser';
+
+/**
+ * Lists the parts of a loaded spec the builder can't edit; they're kept as-is when the chart is rebuilt
+ */
+export function UneditablePartsNotice() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const vegaSpec = useWidgetStore((state) => state.vegaSpec);
+
+  // Custom specs already show their own warning in the builder panels
+  if (detectCustomSpec(vegaSpec, builderState)) return null;
+
+  const parts = listUneditableParts(builderState);
+  if (parts.length === 0) return null;
+
+  return (
+    <details className="mb-3 p-2 bg-yellow-50 border border-yellow-300 rounded text-xs">
+      <summary className="cursor-pointer text-yellow-800 font-semibold">
+        ⚠️ {parts.length} part{parts.length === 1 ? '' : 's'} of this spec can't be edited here
+      </summary>
+      <p className="mt-1 text-yellow-700">
+        They are kept unchanged when the builder updates the chart; edit the spec JSON to change them.
+      </p>
+      <ul className="mt-1 space-y-0.5 max-h-32 overflow-auto">
+        {parts.map((part) => (
+          <li key={part}>
+            <code className="font-mono text-yellow-900">{part}</code>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -1,55 +1,227 @@
-import { useEffect, useState } from 'react';
-import { useWidgetStore } from '@/store/widgetStore';
-import { ChartPreview } from './ChartPreview';
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { VisualizationSpec } from 'vega-embed';
+import { createWidgetStore, useWidgetStore, useWidgetStoreApi, WidgetStoreContext } from '@/store/widgetStore';
+import { ChartPreview, type ChartPreviewHandle } from './ChartPreview';
 import { DataPanel } from './panels/DataPanel';
+import { SuggestionsPanel } from './panels/SuggestionsPanel';
+import { TemplatesPanel } from './panels/TemplatesPanel';
 import { MarkPanel } from './panels/MarkPanel';
 import { EncodingsPanel } from './panels/EncodingsPanel';
+import { TransformsPanel } from './panels/TransformsPanel';
+import { AnnotationsPanel } from './panels/AnnotationsPanel';
+import { StylePanel } from './panels/StylePanel';
 import { AIPanel } from './panels/AIPanel';
 import { SpecPanel } from './panels/SpecPanel';
-import type { VegaWidgetConfig, TabType } from '@/types';
-import { jsPDF } from 'jspdf';
+import { UneditablePartsNotice } from './UneditablePartsNotice';
+import { ExportDialog } from './ExportDialog';
+import type {
+  BuilderState,
+  ImageExportOptions,
+  ImageFormat,
+  VegaWidgetConfig,
+  VegaWidgetHandle,
+  TabType,
+} from '@/types';
+import { isTabEnabled, resolveFeatures } from '@/utils/featureFlags';
+import { validateSpec } from '@/utils/specValidator';
+import { viewToBlob } from '@/utils/imageExport';
+import { computeFieldStats } from '@/utils/fieldStatsClient';
 
+// Tabs are filtered by FeatureFlags (the Data and Templates tabs are opt-in)
 const TABS: { id: TabType; label: string }[] = [
-  // { id: 'data', label: 'Data' }, // Commented out - can be re-enabled if needed
+  { id: 'data', label: 'Data' },
+  { id: 'suggestions', label: 'Suggestions' },
+  { id: 'templates', label: 'Templates' },
   { id: 'mark', label: 'Mark' },
   { id: 'encodings', label: 'Encodings' },
+  { id: 'transforms', label: 'Transforms' },
+  { id: 'annotations', label: 'Annotations' },
+  { id: 'style', label: 'Style' },
   { id: 'ai', label: 'AI Assistant' },
   { id: 'spec', label: 'Spec' },
 ];
 
-export function VegaConfigWidget({ data, builderState: initialBuilderState, callbacks }: VegaWidgetConfig) {
+// Tabs that edit the chart through BuilderState
+const BUILDER_TABS: TabType[] = ['mark', 'encodings', 'transforms', 'annotations', 'style'];
+
+function isSameJSON(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Whether every key of a (partial) builder state prop already matches the store
+ */
+function matchesBuilderState(partial: Partial<BuilderState>, current: BuilderState): boolean {
+  return (Object.keys(partial) as (keyof BuilderState)[]).every((key) => isSameJSON(partial[key], current[key]));
+}
+
+/**
+ * Each widget owns its store, so several can live on one page without sharing state
+ */
+export const VegaConfigWidget = forwardRef<VegaWidgetHandle, VegaWidgetConfig>(function VegaConfigWidget(props, ref) {
+  const [store] = useState(createWidgetStore);
+
+  return (
+    <WidgetStoreContext.Provider value={store}>
+      <WidgetContent {...props} ref={ref} />
+    </WidgetStoreContext.Provider>
+  );
+});
+
+const WidgetContent = forwardRef<VegaWidgetHandle, VegaWidgetConfig>(function WidgetContent(
+  { data, spec, initialSpec, builderState, callbacks, features, templates, themes },
+  ref
+) {
+  const store = useWidgetStoreApi();
   const activeTab = useWidgetStore((state) => state.activeTab);
   const setActiveTab = useWidgetStore((state) => state.setActiveTab);
+  const setFeatures = useWidgetStore((state) => state.setFeatures);
+  const setCallbacks = useWidgetStore((state) => state.setCallbacks);
+  const setTemplates = useWidgetStore((state) => state.setTemplates);
+  const setThemes = useWidgetStore((state) => state.setThemes);
   const setData = useWidgetStore((state) => state.setData);
+  const setDataOnly = useWidgetStore((state) => state.setDataOnly);
+  const loadSpec = useWidgetStore((state) => state.loadSpec);
   const setBuilderState = useWidgetStore((state) => state.setBuilderState);
   const vegaSpec = useWidgetStore((state) => state.vegaSpec);
   const chartData = useWidgetStore((state) => state.data);
+  const dataTruncatedFrom = useWidgetStore((state) => state.dataTruncatedFrom);
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const statsProgress = useWidgetStore((state) => state.statsProgress);
+  const applyFieldStats = useWidgetStore((state) => state.applyFieldStats);
+  const setStatsProgress = useWidgetStore((state) => state.setStatsProgress);
+  const validationErrors = useWidgetStore((state) => state.validationErrors);
+  const setValidationErrors = useWidgetStore((state) => state.setValidationErrors);
   const undo = useWidgetStore((state) => state.undo);
   const redo = useWidgetStore((state) => state.redo);
   const historyIndex = useWidgetStore((state) => state.historyIndex);
   const history = useWidgetStore((state) => state.history);
 
   const [isPanelCollapsed, setIsPanelCollapsed] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<ChartPreviewHandle>(null);
+
+  const resolvedFeatures = resolveFeatures(features);
+  const visibleTabs = TABS.filter((tab) => isTabEnabled(tab.id, resolvedFeatures));
+
+  const isSpecControlled = spec !== undefined;
+  const lastReportedSpec = useRef<VisualizationSpec | null>(null);
+
+  // Make callbacks available to the store and panels (before data, so onDataChange fires for it)
+  useEffect(() => {
+    setCallbacks(callbacks ?? {});
+  }, [callbacks, setCallbacks]);
+
+  const reportSpec = (next: VisualizationSpec) => {
+    if (next === lastReportedSpec.current) return;
+    lastReportedSpec.current = next;
+    store.getState().callbacks.onSpecChange?.(next);
+  };
+
+  // Report changes from the store as they happen, so controlled hosts receive them in order
+  useEffect(() => {
+    return store.subscribe((state, prev) => {
+      if (state.vegaSpec !== prev.vegaSpec) {
+        reportSpec(state.vegaSpec);
+      }
+      if (state.builderState !== prev.builderState) {
+        state.callbacks.onBuilderStateChange?.(state.builderState);
+      }
+    });
+  }, [store]);
+
+  // Apply feature flags before data so maxDataRows is honored on first load
+  useEffect(() => {
+    setFeatures(features ?? {});
+  }, [features, setFeatures]);
 
-  // Initialize data and builder state from props
+  useEffect(() => {
+    setTemplates(templates ?? []);
+  }, [templates, setTemplates]);
+
+  useEffect(() => {
+    setThemes(themes ?? []);
+  }, [themes, setThemes]);
+
+  // Sync data from props; a controlled spec is the host's, so new data must not regenerate it
   useEffect(() => {
     if (data) {
-      setData(data);
+      if (isSpecControlled) {
+        setDataOnly(data);
+      } else {
+        setData(data);
+      }
     }
-  }, [data, setData]);
+  }, [data, setData, setDataOnly, isSpecControlled, features?.maxDataRows]);
 
+  // Sync builder state from props, skipping values the store already holds (e.g. echoed back by the host)
   useEffect(() => {
-    if (initialBuilderState) {
-      setBuilderState(initialBuilderState);
+    if (builderState && !matchesBuilderState(builderState, store.getState().builderState)) {
+      setBuilderState(builderState);
     }
-  }, [initialBuilderState, setBuilderState]);
+  }, [builderState, setBuilderState, store]);
 
-  // Call callbacks when spec changes
+  // Sync a controlled spec; re-checked after data changes too, since setData may have rebuilt the spec
   useEffect(() => {
-    if (callbacks?.onSpecChange) {
-      callbacks.onSpecChange(vegaSpec);
+    if (spec && !isSameJSON(spec, store.getState().vegaSpec)) {
+      loadSpec(spec);
     }
-  }, [vegaSpec, callbacks]);
+  }, [spec, data, loadSpec, store]);
+
+  // initialSpec only applies on mount, and only when the spec isn't controlled
+  useEffect(() => {
+    if (initialSpec && !isSpecControlled) {
+      loadSpec(initialSpec);
+    }
+    // Report the starting spec once props have been applied (no-op if a change was already reported)
+    reportSpec(store.getState().vegaSpec);
+  }, []);
+
+  // Validate every spec against the Vega-Lite schema and the current data fields
+  useEffect(() => {
+    let cancelled = false;
+    validateSpec(vegaSpec, dataFields)
+      .then((result) => {
+        if (!cancelled) {
+          setValidationErrors([...result.errors, ...result.warnings]);
+        }
+      })
+      .catch((error) => {
+        console.error('Spec validation failed:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [vegaSpec, dataFields, setValidationErrors]);
+
+  // Compute full-dataset field stats in a worker when setData only had time to sample
+  useEffect(() => {
+    const fields = store.getState().dataFields;
+    if (fields.length === 0 || fields.every((f) => f.stats?.complete)) return;
+
+    setStatsProgress(0);
+    const cancel = computeFieldStats(chartData, fields.map((f) => f.name), {
+      onField: applyFieldStats,
+      onProgress: setStatsProgress,
+      onDone: () => setStatsProgress(null),
+      onError: (error) => {
+        console.error('Field stats failed:', error);
+        setStatsProgress(null);
+      },
+    });
+    return cancel;
+  }, [chartData, store, applyFieldStats, setStatsProgress]);
+
+  // Fall back to the first visible tab if the active one has been disabled
+  useEffect(() => {
+    if (!visibleTabs.some((tab) => tab.id === activeTab) && visibleTabs.length > 0) {
+      setActiveTab(visibleTabs[0].id);
+    }
+  }, [activeTab, visibleTabs, setActiveTab]);
+
+  const errorCount = validationErrors.filter((e) => e.severity === 'error').length;
+  const warningCount = validationErrors.length - errorCount;
 
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
@@ -62,9 +234,47 @@ export function VegaConfigWidget({ data, builderState: initialBuilderState, call
     if (canRedo) redo();
   };
 
-  // Keyboard shortcuts
+  // Used by the export dialog and the handle; every export is reported through callbacks.onExport
+  const exportChart = useCallback(
+    async (format: ImageFormat, options?: ImageExportOptions) => {
+      const view = previewRef.current?.getView();
+      const vgSpec = previewRef.current?.getVegaSpec();
+      if (!view || !vgSpec) {
+        throw new Error('Chart not rendered yet');
+      }
+      const blob = await viewToBlob(view, vgSpec, format, options);
+      store.getState().callbacks.onExport?.(format, blob);
+      return blob;
+    },
+    [store]
+  );
+
+  // Imperative API for host pages; reads the store directly so calls always see the latest state
+  useImperativeHandle(ref, () => ({
+    getSpec: () => store.getState().vegaSpec,
+    setSpec: (next) => {
+      const state = store.getState();
+      state.captureSnapshot('Set spec');
+      state.loadSpec(next);
+    },
+    applyPlan: async (plan) => {
+      const rejection = await store.getState().commitPlan(plan);
+      if (rejection) throw rejection;
+    },
+    undo: () => store.getState().undo(),
+    redo: () => store.getState().redo(),
+    exportImage: exportChart,
+    reset: () => {
+      const state = store.getState();
+      state.captureSnapshot('Reset');
+      state.reset();
+    },
+  }), [store, exportChart]);
+
+  // Keyboard shortcuts (only for events inside this widget, so other instances aren't affected)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) return;
       if ((e.metaKey || e.ctrlKey) && e.key === 'z' && !e.shiftKey) {
         e.preventDefault();
         handleUndo();
@@ -79,7 +289,7 @@ export function VegaConfigWidget({ data, builderState: initialBuilderState, call
   }, [canUndo, canRedo]);
 
   return (
-    <div className="w-full h-full flex flex-col font-sans">
+    <div ref={rootRef} className="w-full h-full flex flex-col font-sans">
       {/* Header */}
       <div className="border-b border-gray-300 px-4 py-3 bg-gray-50">
         <h2 className="text-lg font-semibold">Vega Chart Configuration</h2>
@@ -113,7 +323,7 @@ export function VegaConfigWidget({ data, builderState: initialBuilderState, call
 
             {/* Tabs */}
             <div className="flex border-b border-gray-300 overflow-x-auto pr-10">
-              {TABS.map((tab) => (
+              {visibleTabs.map((tab) => (
                 <button
                   key={tab.id}
                   onClick={() => setActiveTab(tab.id)}
@@ -130,76 +340,76 @@ export function VegaConfigWidget({ data, builderState: initialBuilderState, call
 
             {/* Tab content */}
             <div className="flex-1 overflow-y-auto p-4">
-              {activeTab === 'data' && <DataPanel />}
+              {BUILDER_TABS.includes(activeTab) && <UneditablePartsNotice />}
+              {activeTab === 'data' && resolvedFeatures.enableDataEditor && <DataPanel />}
+              {activeTab === 'suggestions' && <SuggestionsPanel />}
+              {activeTab === 'templates' && resolvedFeatures.enableTemplates && <TemplatesPanel />}
               {activeTab === 'mark' && <MarkPanel />}
               {activeTab === 'encodings' && <EncodingsPanel />}
-              {activeTab === 'ai' && <AIPanel />}
-              {activeTab === 'spec' && <SpecPanel />}
+              {activeTab === 'transforms' && <TransformsPanel />}
+              {activeTab === 'annotations' && <AnnotationsPanel />}
+              {activeTab === 'style' && <StylePanel />}
+              {activeTab === 'ai' && resolvedFeatures.enableAI && <AIPanel />}
+              {activeTab === 'spec' && resolvedFeatures.enableSpecEditor && <SpecPanel />}
             </div>
           </div>
         )}
 
         {/* Right panel - Preview */}
-        <div className="flex-1 flex flex-col">
+        <div className="flex-1 flex flex-col relative">
           <div className="border-b border-gray-300 px-4 py-2 bg-gray-50 flex items-center justify-between">
             <h3 className="text-sm font-semibold">Chart Preview</h3>
-            <div className="flex gap-2">
-              <button
-                onClick={() => {
-                  const json = JSON.stringify(vegaSpec, null, 2);
-                  const blob = new Blob([json], { type: 'application/json' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = 'vega-spec.json';
-                  a.click();
-                  URL.revokeObjectURL(url);
-                }}
-                className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
-                title="Download Vega-Lite spec as JSON"
-              >
-                📄 JSON
-              </button>
-              <button
-                onClick={() => {
-                  try {
-                    // Find the canvas element from the Vega chart
-                    const canvas = document.querySelector('#vega-chart-container canvas') as HTMLCanvasElement;
-                    if (!canvas) {
-                      alert('Chart not rendered yet. Please wait for the chart to load.');
-                      return;
-                    }
-
-                    // Get the canvas as a data URL
-                    const imgData = canvas.toDataURL('image/png');
-
-                    // Create PDF with appropriate dimensions (using locally installed jsPDF)
-                    const pdf = new jsPDF({
-                      orientation: canvas.width > canvas.height ? 'landscape' : 'portrait',
-                      unit: 'px',
-                      format: [canvas.width, canvas.height]
-                    });
-
-                    // Add the image to PDF
-                    pdf.addImage(imgData, 'PNG', 0, 0, canvas.width, canvas.height);
-
-                    // Download the PDF
-                    pdf.save('chart.pdf');
-                  } catch (error) {
-                    console.error('PDF export error:', error);
-                    alert('PDF export failed. The chart may not be rendered yet or there was an error.');
-                  }
-                }}
-                className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
-                title="Download as PDF file"
-              >
-                📕 PDF
-              </button>
-            </div>
+            {resolvedFeatures.enableExport && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    const json = JSON.stringify(vegaSpec, null, 2);
+                    const blob = new Blob([json], { type: 'application/json' });
+                    const url = URL.createObjectURL(blob);
+                    const a = document.createElement('a');
+                    a.href = url;
+                    a.download = 'vega-spec.json';
+                    a.click();
+                    URL.revokeObjectURL(url);
+                    callbacks?.onExport?.('json', blob);
+                  }}
+                  className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+                  title="Download Vega-Lite spec as JSON"
+                >
+                  📄 JSON
+                </button>
+                <button
+                  onClick={() => setIsExportOpen(true)}
+                  className="px-3 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 transition-colors"
+                  title="Download as PNG, SVG or PDF"
+                >
+                  🖼️ Export
+                </button>
+              </div>
+            )}
           </div>
           <div className="flex-1 overflow-auto p-4">
-            <ChartPreview spec={vegaSpec} data={chartData} />
+            <ChartPreview
+              ref={previewRef}
+              spec={vegaSpec}
+              data={chartData}
+              exportable={resolvedFeatures.enableExport}
+              onError={callbacks?.onError}
+            />
           </div>
+          {isExportOpen && (
+            <ExportDialog
+              onExport={async (format, options) => {
+                try {
+                  return await exportChart(format, options);
+                } catch (error) {
+                  callbacks?.onError?.(error instanceof Error ? error : new Error(String(error)));
+                  throw error;
+                }
+              }}
+              onClose={() => setIsExportOpen(false)}
+            />
+          )}
         </div>
       </div>
 
@@ -224,10 +434,40 @@ export function VegaConfigWidget({ data, builderState: initialBuilderState, call
           </button>
         </div>
 
-        <div className="text-xs text-gray-600">
-          {chartData.length} rows • {Object.keys(chartData[0] || {}).length} columns
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          {validationErrors.length > 0 && (
+            <button
+              onClick={() => resolvedFeatures.enableSpecEditor && setActiveTab('spec')}
+              className={`px-2 py-0.5 border rounded ${
+                errorCount > 0
+                  ? 'bg-red-100 text-red-700 border-red-300'
+                  : 'bg-yellow-100 text-yellow-800 border-yellow-300'
+              }`}
+              title={validationErrors.map((e) => `${e.path}: ${e.message}`).join('\n')}
+            >
+              {errorCount > 0 ? `❌ ${errorCount} error${errorCount === 1 ? '' : 's'}` : ''}
+              {errorCount > 0 && warningCount > 0 ? ' • ' : ''}
+              {warningCount > 0 ? `⚠️ ${warningCount} warning${warningCount === 1 ? '' : 's'}` : ''}
+            </button>
+          )}
+          {statsProgress !== null && (
+            <span title="Computing field statistics over the full dataset">
+              Analyzing fields… {Math.round(statsProgress * 100)}%
+            </span>
+          )}
+          {dataTruncatedFrom !== null && (
+            <span
+              className="px-2 py-0.5 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded"
+              title={`Data was sampled to the ${resolvedFeatures.maxDataRows} row limit`}
+            >
+              ⚠️ Sampled {chartData.length} of {dataTruncatedFrom} rows
+            </span>
+          )}
+          <span>
+            {chartData.length} rows • {Object.keys(chartData[0] || {}).length} columns
+          </span>
         </div>
       </div>
     </div>
   );
-}
+});
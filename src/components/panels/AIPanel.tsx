@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useWidgetStore } from '@/store/widgetStore';
-import { parseNLToPlan, applyPlan } from '@/utils/nlPlanner';
+import { detectCustomSpec } from '@/utils/specParser';
+import { parseNLToPlan } from '@/utils/nlPlanner';
 import { parseNLWithAI, editSpecWithAI, type AIProvider } from '@/utils/aiService';
+import { findDisallowedSpecMarks, findDisallowedSpecTransforms } from '@/utils/featureFlags';
+import { describeValidationErrors, validateSpec } from '@/utils/specValidator';
+import { getFieldType } from '@/utils/fieldInference';
 
 // Storage keys
 // API keys use sessionStorage for security (cleared on browser close)
@@ -17,9 +21,11 @@ export function AIPanel() {
   const builderState = useWidgetStore((state) => state.builderState);
   const vegaSpec = useWidgetStore((state) => state.vegaSpec);
   const dataFields = useWidgetStore((state) => state.dataFields);
+  const features = useWidgetStore((state) => state.features);
+  const callbacks = useWidgetStore((state) => state.callbacks);
   const lastPlan = useWidgetStore((state) => state.lastPlan);
-  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
   const setSpec = useWidgetStore((state) => state.setSpec);
+  const commitPlan = useWidgetStore((state) => state.commitPlan);
   const setLastPlan = useWidgetStore((state) => state.setLastPlan);
   const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
 
@@ -64,15 +70,7 @@ export function AIPanel() {
   const fieldNames = dataFields.map((f) => f.name);
 
   // Detect if current spec is a complex/custom spec that can't be represented in BuilderState
-  const isCustomSpec = !!(
-    vegaSpec.facet ||
-    vegaSpec.layer ||
-    vegaSpec.hconcat ||
-    vegaSpec.vconcat ||
-    vegaSpec.repeat ||
-    (vegaSpec.transform && vegaSpec.transform.length > 3) ||
-    (vegaSpec.data && (vegaSpec.data as any).url)
-  );
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
 
   // Auto-switch to GenAI mode when custom spec is detected
   useEffect(() => {
@@ -88,6 +86,12 @@ export function AIPanel() {
     }
   };
 
+  // Show an AI failure and forward it to the host
+  const reportFailure = (message: string) => {
+    setError(message);
+    callbacks.onError?.(new Error(message));
+  };
+
   const handleApplyCommand = async () => {
     if (!command.trim()) return;
 
@@ -126,16 +130,38 @@ export function AIPanel() {
         setIsLoading(false);
 
         if (result.success && result.spec) {
-          captureSnapshot(`AI: ${command}`);
-          setSpec(result.spec, {});
-          setLastPlan({
+          const disallowed = findDisallowedSpecMarks(result.spec, features);
+          if (disallowed.length > 0) {
+            reportFailure(`AI edit rejected: ${disallowed.join(', ')} marks are not allowed in this widget`);
+            return;
+          }
+          const disallowedTransforms = findDisallowedSpecTransforms(result.spec, features);
+          if (disallowedTransforms.length > 0) {
+            reportFailure(`AI edit rejected: ${disallowedTransforms.join(', ')} transforms are not allowed in this widget`);
+            return;
+          }
+
+          // Field checks only apply when the spec uses the widget's data
+          const usesExternalData = !!(result.spec as any).data?.url;
+          const validation = await validateSpec(result.spec, usesExternalData ? [] : dataFields);
+          if (!validation.valid) {
+            reportFailure(`AI edit rejected (invalid spec): ${describeValidationErrors(validation.errors)}`);
+            return;
+          }
+
+          const directPlan = {
             intentText: command,
             confidence: 0.9,
             operations: [{ op: 'direct_spec_edit' as any, description: 'Modified spec directly with AI' }],
-          });
+          };
+
+          captureSnapshot(`AI: ${command}`);
+          setSpec(result.spec, {});
+          setLastPlan(directPlan);
+          callbacks.onAICommand?.(command, directPlan);
           setCommand('');
         } else {
-          setError(result.error || 'Failed to edit spec');
+          reportFailure(result.error || 'Failed to edit spec');
         }
         return;
       }
@@ -172,15 +198,17 @@ export function AIPanel() {
         setIsLoading(false);
       }
 
-      const nextState = applyPlan(builderState, plan, dataFields);
-
-      captureSnapshot(`AI: ${command}`);
-      setLastPlan(plan);
-      setBuilderState(nextState);
+      // Validated, recorded and reported the same way as plans applied through the widget's ref
+      const rejection = await commitPlan(plan, command);
+      if (rejection) {
+        setError(rejection.message);
+        return;
+      }
       setCommand('');
     } catch (err) {
       setIsLoading(false);
       setError(err instanceof Error ? err.message : 'Failed to process command');
+      callbacks.onError?.(err instanceof Error ? err : new Error(String(err)));
       console.error('AI command error:', err);
     }
   };
@@ -448,7 +476,7 @@ export function AIPanel() {
             <span
               key={field.name}
               className="px-2 py-1 text-xs bg-blue-50 border border-blue-200 rounded"
-              title={`Type: ${field.inferredType}`}
+              title={`Type: ${getFieldType(field)}`}
             >
               {field.name}
             </span>
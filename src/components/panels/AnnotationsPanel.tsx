@@ -0,0 +1,322 @@
+import { useWidgetStore } from '@/store/widgetStore';
+import { detectCustomSpec } from '@/utils/specParser';
+import { buildAnnotationLayers } from '@/utils/specBuilder';
+import { CommitInput, toNumber } from '@/components/CommitInput';
+import type { AnnotationAggregate, AnnotationKind, BuilderState, ChartAnnotation } from '@/types';
+
+const ANNOTATION_PRESETS: { value: string; label: string; description: string }[] = [
+  { value: 'line', label: 'Reference line', description: 'A target or threshold at a fixed value' },
+  { value: 'mean', label: 'Average line', description: 'Follows the average of the plotted values' },
+  { value: 'band', label: 'Band', description: 'Shade a range, e.g. a date period or a target zone' },
+  { value: 'text', label: 'Text label', description: 'A callout at a data point' },
+];
+
+const AGGREGATE_LABELS: Record<AnnotationAggregate, string> = {
+  mean: 'Average',
+  median: 'Median',
+  min: 'Minimum',
+  max: 'Maximum',
+};
+
+const KIND_LABELS: Record<AnnotationKind, string> = {
+  line: 'Line',
+  band: 'Band',
+  text: 'Text',
+};
+
+const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white';
+
+/**
+ * Axis the preset goes on: statistics and bands measure the quantitative axis, unless the other one is temporal
+ */
+function measureAxis(encodings: BuilderState['encodings']): 'x' | 'y' {
+  return encodings.y?.type !== 'quantitative' && encodings.x?.type === 'quantitative' ? 'x' : 'y';
+}
+
+function createAnnotation(preset: string, encodings: BuilderState['encodings']): ChartAnnotation {
+  switch (preset) {
+    case 'mean':
+      return { kind: 'line', axis: measureAxis(encodings), aggregate: 'mean', text: 'Average', dashed: true };
+    case 'band':
+      return { kind: 'band', axis: encodings.x?.type === 'temporal' ? 'x' : measureAxis(encodings) };
+    case 'text':
+      return { kind: 'text', text: 'Note' };
+    default:
+      return { kind: 'line', axis: measureAxis(encodings), text: 'Target' };
+  }
+}
+
+function describeAnnotation(a: ChartAnnotation): string {
+  switch (a.kind) {
+    case 'line':
+      return `${a.text ?? (a.aggregate ? AGGREGATE_LABELS[a.aggregate] : 'Line')} at ${
+        a.aggregate ? `${a.aggregate}(${a.axis ?? 'y'})` : `${a.axis ?? 'y'} = ${a.value ?? '?'}`
+      }`;
+    case 'band':
+      return `${a.text ?? 'Band'}: ${a.axis ?? 'y'} ${a.start ?? '?'} – ${a.end ?? '?'}`;
+    case 'text':
+      return `"${a.text ?? ''}" at (${a.x ?? '?'}, ${a.y ?? '?'})`;
+  }
+}
+
+export function AnnotationsPanel() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const vegaSpec = useWidgetStore((state) => state.vegaSpec);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+
+  const annotations = builderState.annotations ?? [];
+
+  // Detect if current spec is a complex/custom spec
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
+
+  if (isCustomSpec) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-yellow-50 border border-yellow-300 rounded">
+          <div className="flex items-start gap-2">
+            <span className="text-yellow-600 font-bold text-lg">⚠️</span>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-yellow-800 mb-2">
+                Custom Spec - Builder Disabled
+              </p>
+              <p className="text-xs text-yellow-700 mb-3">
+                You're viewing a complex spec (concatenated views, external data, or structure the builder can't express) that can't be edited through the builder panels.
+              </p>
+              <p className="text-xs font-semibold text-yellow-800 mb-1">Options:</p>
+              <ul className="text-xs text-yellow-700 space-y-1 list-disc list-inside">
+                <li>Use the <strong>AI Assistant</strong> tab (GenAI mode) to modify this spec</li>
+                <li>Use the <strong>Spec</strong> tab to manually edit the JSON</li>
+                <li>Reset to a simple chart to use the builder</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const updateAnnotations = (next: ChartAnnotation[], description: string) => {
+    captureSnapshot(description);
+    setBuilderState({ annotations: next });
+  };
+
+  const handleAdd = (preset: string) => {
+    const label = ANNOTATION_PRESETS.find((p) => p.value === preset)?.label ?? preset;
+    updateAnnotations([...annotations, createAnnotation(preset, builderState.encodings)], `Add ${label.toLowerCase()}`);
+  };
+
+  const handleChange = (index: number, updates: Partial<ChartAnnotation>) => {
+    updateAnnotations(
+      annotations.map((a, i) => (i === index ? { ...a, ...updates } : a)),
+      `Edit ${KIND_LABELS[annotations[index].kind].toLowerCase()} annotation`
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    updateAnnotations(
+      annotations.filter((_, i) => i !== index),
+      `Remove ${KIND_LABELS[annotations[index].kind].toLowerCase()} annotation`
+    );
+  };
+
+  const sharesYScale = !(builderState.layers?.length && builderState.resolveY === 'independent');
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-1">Annotations</h3>
+        <p className="text-xs text-gray-500">
+          Reference lines, shaded bands and text labels drawn over the chart. Positions are data values on the
+          chart's axes (numbers, categories or dates like 2024-03-31).
+        </p>
+      </div>
+
+      {!sharesYScale && (
+        <p className="p-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded">
+          Layers have separate Y axes, so annotations at Y values get a scale of their own. Switch layers back to a
+          shared Y axis in the Mark tab to line them up.
+        </p>
+      )}
+
+      {annotations.map((annotation, index) => (
+        <AnnotationEditor
+          key={index}
+          annotation={annotation}
+          encodings={builderState.encodings}
+          onChange={(updates) => handleChange(index, updates)}
+          onRemove={() => handleRemove(index)}
+        />
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && handleAdd(e.target.value)}
+        className="w-full px-3 py-2 border border-dashed border-gray-400 rounded text-sm text-gray-700 bg-white"
+      >
+        <option value="">+ Add annotation…</option>
+        {ANNOTATION_PRESETS.map((p) => (
+          <option key={p.value} value={p.value} title={p.description}>
+            {p.label} — {p.description}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface AnnotationEditorProps {
+  annotation: ChartAnnotation;
+  encodings: BuilderState['encodings'];
+  onChange: (updates: Partial<ChartAnnotation>) => void;
+  onRemove: () => void;
+}
+
+function AnnotationEditor({ annotation, encodings, onChange, onRemove }: AnnotationEditorProps) {
+  const axis = annotation.axis ?? 'y';
+  const isDrawn = buildAnnotationLayers(annotation, encodings).length > 0;
+
+  // Numbers on a quantitative axis; categories and dates stay as text
+  const positionInput = (
+    channel: 'x' | 'y',
+    value: number | string | undefined,
+    onCommit: (value: number | string | undefined) => void
+  ) => {
+    const quantitative = encodings[channel]?.type === 'quantitative';
+    return (
+      <CommitInput
+        type={quantitative ? 'number' : 'text'}
+        value={value}
+        onCommit={(v) => onCommit(quantitative ? toNumber(v) : v)}
+        placeholder={encodings[channel]?.type === 'temporal' ? 'YYYY-MM-DD' : encodings[channel]?.field ?? 'Value'}
+      />
+    );
+  };
+
+  return (
+    <div className="p-3 border border-gray-300 rounded bg-gray-50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex-1 text-sm font-semibold truncate" title={describeAnnotation(annotation)}>
+          {describeAnnotation(annotation)}
+        </span>
+        <button onClick={onRemove} className="text-xs text-red-600 hover:text-red-700" title="Remove annotation">
+          Remove
+        </button>
+      </div>
+
+      {annotation.kind !== 'text' && (
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Direction</label>
+          <select
+            value={axis}
+            onChange={(e) => onChange({ axis: e.target.value as 'x' | 'y' })}
+            className={inputClass}
+          >
+            <option value="y">Horizontal (at Y values)</option>
+            <option value="x">Vertical (at X values)</option>
+          </select>
+        </div>
+      )}
+
+      {annotation.kind === 'line' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Position</label>
+            <select
+              value={annotation.aggregate ?? ''}
+              onChange={(e) =>
+                onChange(
+                  e.target.value
+                    ? { aggregate: e.target.value as AnnotationAggregate, value: undefined }
+                    : { aggregate: undefined }
+                )
+              }
+              className={inputClass}
+            >
+              <option value="">Fixed value</option>
+              {Object.entries(AGGREGATE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {!annotation.aggregate && (
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Value</label>
+              {positionInput(axis, annotation.value, (value) => onChange({ value }))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {annotation.kind === 'band' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">From</label>
+            {positionInput(axis, annotation.start, (start) => onChange({ start }))}
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">To</label>
+            {positionInput(axis, annotation.end, (end) => onChange({ end }))}
+          </div>
+        </div>
+      )}
+
+      {annotation.kind === 'text' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">X</label>
+            {positionInput('x', annotation.x, (x) => onChange({ x }))}
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Y</label>
+            {positionInput('y', annotation.y, (y) => onChange({ y }))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="text-xs text-gray-600 block mb-1">{annotation.kind === 'text' ? 'Text' : 'Label'}</label>
+        <CommitInput
+          value={annotation.text}
+          onCommit={(text) => onChange({ text })}
+          placeholder={annotation.kind === 'text' ? '' : 'None'}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(annotation.color ?? '') ? annotation.color : '#666666'}
+          onChange={(e) => onChange({ color: e.target.value })}
+          className="w-10 h-8 border border-gray-300 rounded"
+        />
+        <div className="flex-1">
+          <CommitInput value={annotation.color} onCommit={(color) => onChange({ color })} placeholder="Default color" />
+        </div>
+        {annotation.kind === 'line' && (
+          <label className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={!!annotation.dashed}
+              onChange={(e) => onChange({ dashed: e.target.checked || undefined })}
+              className="w-4 h-4"
+            />
+            Dashed
+          </label>
+        )}
+      </div>
+
+      {!isDrawn && (
+        <p className="text-xs text-yellow-700">
+          {annotation.aggregate && !encodings[axis]?.field
+            ? `Put a field on the ${axis.toUpperCase()} axis to compute this line.`
+            : annotation.kind === 'text'
+              ? 'Enter the text and both positions to draw this label.'
+              : 'Enter a position to draw this annotation.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from 'react';
+import { inferFields } from '@/utils/fieldInference';
+import {
+  coerceColumnTypes,
+  parseDelimited,
+  type DateOrder,
+  type DecimalSeparator,
+} from '@/utils/csvParser';
+import type { FieldType } from '@/types';
+
+const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Auto-detect' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const FIELD_TYPES: FieldType[] = ['quantitative', 'temporal', 'nominal', 'ordinal'];
+
+const PREVIEW_ROWS = 5;
+
+interface CsvImportWizardProps {
+  fileName: string;
+  text: string;
+  onImport: (rows: Record<string, any>[], types: Record<string, FieldType>) => void;
+  onCancel: () => void;
+}
+
+function describeDelimiter(delimiter: string): string {
+  return DELIMITER_OPTIONS.find((d) => d.value === delimiter)?.label ?? JSON.stringify(delimiter);
+}
+
+/**
+ * Preview a CSV/TSV file, adjust parse options and confirm each column's type before importing
+ */
+export function CsvImportWizard({ fileName, text, onImport, onCancel }: CsvImportWizardProps) {
+  const [delimiter, setDelimiter] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [skipRows, setSkipRows] = useState(0);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator | ''>('');
+  const [dateOrder, setDateOrder] = useState<DateOrder | ''>('');
+  const [types, setTypes] = useState<Record<string, FieldType>>({});
+
+  const parsed = useMemo(
+    () =>
+      parseDelimited(text, {
+        delimiter: delimiter || undefined,
+        hasHeader,
+        skipRows,
+        decimalSeparator: decimalSeparator || undefined,
+        dateOrder: dateOrder || undefined,
+      }),
+    [text, delimiter, hasHeader, skipRows, decimalSeparator, dateOrder]
+  );
+
+  const inferredTypes = useMemo(() => {
+    const result: Record<string, FieldType> = {};
+    inferFields(parsed.rows).forEach((f) => {
+      result[f.name] = f.inferredType;
+    });
+    return result;
+  }, [parsed.rows]);
+
+  // Re-parsing may change the columns, so start again from the inferred types
+  useEffect(() => {
+    setTypes(inferredTypes);
+  }, [inferredTypes]);
+
+  const changedTypes = useMemo(() => {
+    const result: Record<string, FieldType> = {};
+    for (const header of parsed.headers) {
+      if (types[header] && types[header] !== inferredTypes[header]) {
+        result[header] = types[header];
+      }
+    }
+    return result;
+  }, [parsed.headers, types, inferredTypes]);
+
+  const previewRows = useMemo(
+    () =>
+      coerceColumnTypes(
+        parsed.rows.slice(0, PREVIEW_ROWS),
+        changedTypes,
+        parsed.decimalSeparator,
+        parsed.dateOrder
+      ),
+    [parsed, changedTypes]
+  );
+
+  const handleImport = () => {
+    // Only columns the user changed need converting; the rest already match inference
+    const rows = coerceColumnTypes(parsed.rows, changedTypes, parsed.decimalSeparator, parsed.dateOrder);
+    onImport(rows, { ...inferredTypes, ...types });
+  };
+
+  return (
+    <div className="p-3 mb-3 border border-blue-200 bg-blue-50 rounded space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold">Import {fileName}</h4>
+        <p className="text-xs text-gray-600">
+          {parsed.rows.length} rows × {parsed.headers.length} columns
+          {!delimiter && ` • detected ${describeDelimiter(parsed.delimiter)}`}
+        </p>
+      </div>
+
+      {/* Parse options */}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Delimiter</label>
+          <select
+            value={delimiter}
+            onChange={(e) => setDelimiter(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+          >
+            {DELIMITER_OPTIONS.map((d) => (
+              <option key={d.label} value={d.value}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Skip rows</label>
+          <input
+            type="number"
+            min={0}
+            value={skipRows}
+            onChange={(e) => setSkipRows(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Decimal separator</label>
+          <select
+            value={decimalSeparator}
+            onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator | '')}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+          >
+            <option value="">Auto ({parsed.decimalSeparator === ',' ? '1.234,5' : '1,234.5'})</option>
+            <option value=".">Point (1,234.5)</option>
+            <option value=",">Comma (1.234,5)</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Dates</label>
+          <select
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value as DateOrder | '')}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+          >
+            <option value="">Auto ({parsed.dateOrder === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'})</option>
+            <option value="MDY">MM/DD/YYYY</option>
+            <option value="DMY">DD/MM/YYYY</option>
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs">
+        <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+        First row contains column names
+      </label>
+
+      {/* Column types */}
+      <div>
+        <h5 className="text-xs font-semibold mb-1">Column types</h5>
+        <div className="space-y-1 max-h-48 overflow-auto">
+          {parsed.headers.map((header) => (
+            <div key={header} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium truncate" title={header}>
+                {header}
+              </span>
+              <select
+                value={types[header] ?? inferredTypes[header] ?? 'nominal'}
+                onChange={(e) => setTypes({ ...types, [header]: e.target.value as FieldType })}
+                className={`px-2 py-1 border rounded text-xs bg-white ${
+                  changedTypes[header] ? 'border-blue-500' : 'border-gray-300'
+                }`}
+              >
+                {FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                    {type === inferredTypes[header] ? ' (detected)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="overflow-auto bg-white border border-gray-200 rounded">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr className="bg-gray-100 border-b border-gray-300">
+              {parsed.headers.map((header) => (
+                <th key={header} className="px-2 py-1 text-left font-semibold border-r border-gray-300 last:border-r-0">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, i) => (
+              <tr key={i} className="border-b border-gray-200">
+                {parsed.headers.map((header) => (
+                  <td key={header} className="px-2 py-1 border-r border-gray-200 last:border-r-0">
+                    {row[header] == null ? <span className="text-gray-400">null</span> : String(row[header])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleImport}
+          disabled={parsed.rows.length === 0}
+          className="px-3 py-1.5 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import {parsed.rows.length} rows
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-gray-400 text-white rounded text-sm font-medium hover:bg-gray-500 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,43 @@
 import { useState } from 'react';
+import type { WorkBook } from 'xlsx';
 import { useWidgetStore } from '@/store/widgetStore';
+import { CsvImportWizard } from './CsvImportWizard';
+import { FieldSparkline, describeFieldStats } from '@/components/FieldSparkline';
+import {
+  ACCEPTED_FILE_TYPES,
+  getFileKind,
+  listSheets,
+  readArrow,
+  readParquet,
+  readSheet,
+  readWorkbook,
+  type ImportedRows,
+  type SheetInfo,
+} from '@/utils/fileImporters';
+import { getFieldType } from '@/utils/fieldInference';
+import type { FieldType } from '@/types';
+
+const FIELD_TYPES: FieldType[] = ['quantitative', 'temporal', 'nominal', 'ordinal'];
 
 export function DataPanel() {
   const data = useWidgetStore((state) => state.data);
   const dataFields = useWidgetStore((state) => state.dataFields);
+  const dataTruncatedFrom = useWidgetStore((state) => state.dataTruncatedFrom);
   const setData = useWidgetStore((state) => state.setData);
+  const setFieldType = useWidgetStore((state) => state.setFieldType);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+  const maxDataRows = useWidgetStore((state) => state.features.maxDataRows);
 
   const [editMode, setEditMode] = useState(false);
   const [jsonText, setJsonText] = useState(JSON.stringify(data, null, 2));
   const [error, setError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; text: string } | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    fileName: string;
+    workbook: WorkBook;
+    sheets: SheetInfo[];
+  } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   const handleEdit = () => {
     setEditMode(true);
@@ -39,50 +68,93 @@ export function DataPanel() {
     setError(null);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Allow re-selecting the same file
+    e.target.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const content = event.target?.result as string;
+    const kind = getFileKind(file.name);
+    if (!kind) {
+      setError(`Unsupported file type: ${file.name}`);
+      return;
+    }
 
-        if (file.name.endsWith('.json')) {
-          const parsed = JSON.parse(content);
+    setError(null);
+    setPendingImport(null);
+    setPendingWorkbook(null);
+    setIsImporting(true);
+
+    try {
+      switch (kind) {
+        case 'json': {
+          const parsed = JSON.parse(await file.text());
           if (Array.isArray(parsed)) {
             setData(parsed);
-            setError(null);
           } else {
             setError('JSON file must contain an array');
           }
-        } else if (file.name.endsWith('.csv')) {
-          const parsed = parseCSV(content);
-          setData(parsed);
-          setError(null);
+          break;
         }
-      } catch (err) {
-        setError('Failed to parse file: ' + (err instanceof Error ? err.message : 'Unknown error'));
+        case 'delimited':
+          // Delimited text goes through the import wizard to confirm parsing and column types
+          setPendingImport({ fileName: file.name, text: await file.text() });
+          break;
+        case 'workbook': {
+          const workbook = await readWorkbook(await file.arrayBuffer());
+          const sheets = (await listSheets(workbook)).filter((sheet) => sheet.rowCount > 0);
+          if (sheets.length === 0) {
+            setError('Workbook has no sheets with data');
+          } else if (sheets.length === 1) {
+            applyImport(await readSheet(workbook, sheets[0].name, maxDataRows));
+          } else {
+            setPendingWorkbook({ fileName: file.name, workbook, sheets });
+          }
+          break;
+        }
+        case 'arrow':
+          applyImport(await readArrow(await file.arrayBuffer(), maxDataRows));
+          break;
+        case 'parquet':
+          applyImport(await readParquet(await file.arrayBuffer(), maxDataRows));
+          break;
       }
-    };
-    reader.readAsText(file);
+    } catch (err) {
+      setError('Failed to parse file: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const applyImport = ({ rows, truncatedFrom }: ImportedRows) => {
+    if (rows.length === 0) {
+      setError('File contains no rows');
+      return;
+    }
+    setData(rows, { sourceRowCount: truncatedFrom ?? undefined });
   };
 
-  const parseCSV = (csv: string): any[] => {
-    const lines = csv.trim().split('\n');
-    const headers = lines[0].split(',').map(h => h.trim());
-
-    return lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim());
-      const obj: any = {};
-      headers.forEach((header, i) => {
-        const value = values[i];
-        // Try to parse as number
-        const num = Number(value);
-        obj[header] = isNaN(num) ? value : num;
-      });
-      return obj;
-    });
+  const handleSelectSheet = async (sheetName: string) => {
+    if (!pendingWorkbook) return;
+    setIsImporting(true);
+    try {
+      applyImport(await readSheet(pendingWorkbook.workbook, sheetName, maxDataRows));
+      setPendingWorkbook(null);
+    } catch (err) {
+      setError('Failed to read sheet: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFieldTypeChange = (name: string, type: FieldType | null) => {
+    captureSnapshot(type ? `Treat ${name} as ${type}` : `Reset type of ${name}`);
+    setFieldType(name, type);
+  };
+
+  const handleImport = (rows: Record<string, any>[], types: Record<string, FieldType>) => {
+    setData(rows, { typeOverrides: types });
+    setPendingImport(null);
   };
 
   return (
@@ -90,7 +162,7 @@ export function DataPanel() {
       <div className="mb-3">
         <h3 className="text-sm font-semibold mb-2">Data</h3>
         <p className="text-xs text-gray-600 mb-3">
-          View, edit, or upload your data. Supports JSON and CSV formats.
+          View, edit, or upload your data. Supports JSON, CSV/TSV, Excel, Arrow and Parquet files.
         </p>
 
         <div className="flex flex-wrap gap-2 mb-3">
@@ -106,7 +178,7 @@ export function DataPanel() {
                 Upload File
                 <input
                   type="file"
-                  accept=".json,.csv"
+                  accept={ACCEPTED_FILE_TYPES}
                   onChange={handleFileUpload}
                   className="hidden"
                 />
@@ -135,6 +207,43 @@ export function DataPanel() {
             {error}
           </div>
         )}
+
+        {isImporting && <div className="p-2 mb-3 text-xs text-gray-600">Reading file...</div>}
+
+        {pendingWorkbook && (
+          <div className="p-3 mb-3 border border-blue-200 bg-blue-50 rounded">
+            <h4 className="text-sm font-semibold mb-1">Choose a sheet from {pendingWorkbook.fileName}</h4>
+            <div className="space-y-1">
+              {pendingWorkbook.sheets.map((sheet) => (
+                <button
+                  key={sheet.name}
+                  onClick={() => handleSelectSheet(sheet.name)}
+                  disabled={isImporting}
+                  className="w-full flex items-center justify-between px-2 py-1.5 bg-white border border-gray-300 rounded text-sm hover:bg-gray-100 disabled:opacity-50"
+                >
+                  <span className="font-medium">{sheet.name}</span>
+                  <span className="text-xs text-gray-500">{sheet.rowCount} rows</span>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setPendingWorkbook(null)}
+              className="mt-2 px-3 py-1.5 bg-gray-400 text-white rounded text-sm font-medium hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {pendingImport && (
+          <CsvImportWizard
+            key={pendingImport.fileName}
+            fileName={pendingImport.fileName}
+            text={pendingImport.text}
+            onImport={handleImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
       </div>
 
       {/* Field Information */}
@@ -142,11 +251,40 @@ export function DataPanel() {
         <h4 className="text-xs font-semibold mb-2">Fields ({dataFields.length})</h4>
         <div className="space-y-1">
           {dataFields.map((field) => (
-            <div key={field.name} className="flex items-center justify-between text-xs">
-              <span className="font-medium">{field.name}</span>
-              <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded">
-                {field.inferredType}
+            <div key={field.name} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium truncate" title={field.name}>
+                {field.name}
               </span>
+              <div className="flex items-center gap-1">
+                <span title={describeFieldStats(field)}>
+                  <FieldSparkline field={field} />
+                </span>
+                {field.overrideType && (
+                  <button
+                    onClick={() => handleFieldTypeChange(field.name, null)}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={`Reset to detected type (${field.inferredType})`}
+                  >
+                    ↺
+                  </button>
+                )}
+                <select
+                  value={getFieldType(field)}
+                  onChange={(e) => handleFieldTypeChange(field.name, e.target.value as FieldType)}
+                  className={`px-1 py-0.5 rounded text-xs ${
+                    field.overrideType
+                      ? 'bg-purple-100 text-purple-700 border border-purple-300'
+                      : 'bg-blue-100 text-blue-700 border border-blue-100'
+                  }`}
+                  title={field.overrideType ? `Overridden (detected: ${field.inferredType})` : 'Detected type'}
+                >
+                  {FIELD_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           ))}
         </div>
@@ -204,6 +342,11 @@ export function DataPanel() {
       {/* Data Stats */}
       <div className="mt-3 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
         <strong>{data.length}</strong> rows × <strong>{dataFields.length}</strong> columns
+        {dataTruncatedFrom !== null && (
+          <div className="mt-1 text-yellow-800">
+            ⚠️ Sampled evenly from {dataTruncatedFrom} rows to stay within the row limit
+          </div>
+        )}
       </div>
     </div>
   );
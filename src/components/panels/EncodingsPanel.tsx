@@ -1,30 +1,72 @@
+import { useState } from 'react';
 import { useWidgetStore } from '@/store/widgetStore';
-import type { FieldType, AggregateOp, EncodingConfig } from '@/types';
+import { detectCustomSpec } from '@/utils/specParser';
+import { getFieldType } from '@/utils/fieldInference';
+import { CONDITION_CHANNELS, SECONDARY_CHANNELS, fieldRef } from '@/utils/specBuilder';
+import { FieldPicker } from '@/components/FieldPicker';
+import { CommitInput, toNumber } from '@/components/CommitInput';
+import { InteractionsEditor } from './InteractionsEditor';
+import { PaletteEditor } from './PaletteEditor';
+import type {
+  FieldType,
+  AggregateOp,
+  ConditionChannel,
+  EncodingCondition,
+  EncodingConfig,
+  EncodingChannelName,
+  FacetChannel,
+  ResolveMode,
+} from '@/types';
 
 const AGGREGATE_OPS: AggregateOp[] = ['sum', 'mean', 'median', 'count', 'min', 'max', 'distinct', 'q1', 'q3'];
 
+// Channels beyond x/y/color/size, shown once added
+const EXTRA_CHANNELS: { channel: EncodingChannelName; label: string; description: string }[] = [
+  { channel: 'x2', label: 'X End', description: 'End of a horizontal range (range bars, Gantt charts)' },
+  { channel: 'y2', label: 'Y End', description: 'End of a vertical range' },
+  { channel: 'theta', label: 'Angle', description: 'Slice size for arc marks (pie/donut)' },
+  { channel: 'radius', label: 'Radius', description: 'Distance from the center for arc marks' },
+  { channel: 'shape', label: 'Shape', description: 'Point shape' },
+  { channel: 'opacity', label: 'Opacity', description: 'Mark opacity' },
+  { channel: 'strokeDash', label: 'Stroke Dash', description: 'Line dash pattern' },
+  { channel: 'text', label: 'Text', description: 'Label for text marks' },
+  { channel: 'detail', label: 'Detail', description: 'Group marks without changing how they look' },
+  { channel: 'order', label: 'Order', description: 'Stacking and line connection order' },
+  { channel: 'href', label: 'Link', description: 'URL opened when a mark is clicked' },
+  { channel: 'url', label: 'Image URL', description: 'Image source for image marks' },
+];
+
 interface EncodingChannelProps {
   label: string;
-  channel: 'x' | 'y' | 'color' | 'size';
+  channel: EncodingChannelName;
   encoding?: EncodingConfig;
   onUpdate: (config: EncodingConfig | undefined) => void;
+  showAggregate?: boolean; // Facet channels split the data rather than summarize it
 }
 
-function EncodingChannel({ label, channel, encoding, onUpdate }: EncodingChannelProps) {
+export function EncodingChannel({ label, channel, encoding, onUpdate, showAggregate = true }: EncodingChannelProps) {
   const dataFields = useWidgetStore((state) => state.dataFields);
 
+  const isConditionChannel = CONDITION_CHANNELS.includes(channel as ConditionChannel);
+  // Range ends share the primary channel's type
+  const isSecondaryChannel = SECONDARY_CHANNELS.includes(channel);
+
   const handleFieldChange = (field: string) => {
     if (!field) {
-      onUpdate(undefined);
+      // Rules can set the channel on their own
+      onUpdate(encoding?.conditions?.length ? { conditions: encoding.conditions, value: encoding.value } : undefined);
       return;
     }
 
     const fieldInfo = dataFields.find((f) => f.name === field);
     onUpdate({
       field,
-      type: fieldInfo?.inferredType || 'nominal',
+      type: isSecondaryChannel ? undefined : fieldInfo ? getFieldType(fieldInfo) : 'nominal',
       aggregate: encoding?.aggregate,
       sort: encoding?.sort,
+      header: encoding?.header,
+      columns: encoding?.columns,
+      conditions: encoding?.conditions,
     });
   };
 
@@ -59,76 +101,190 @@ function EncodingChannel({ label, channel, encoding, onUpdate }: EncodingChannel
       <div className="space-y-2">
         <div>
           <label className="text-xs text-gray-600 block mb-1">Field</label>
-          <select
-            value={encoding?.field || ''}
-            onChange={(e) => handleFieldChange(e.target.value)}
-            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
-          >
-            <option value="">— Select field —</option>
-            {dataFields.map((f) => (
-              <option key={f.name} value={f.name}>
-                {f.name} ({f.inferredType[0].toUpperCase()})
-              </option>
-            ))}
-          </select>
+          <FieldPicker value={encoding?.field} fields={dataFields} onChange={handleFieldChange} />
         </div>
 
-        {encoding && (
+        {encoding?.field && (
           <>
             <div className="grid grid-cols-2 gap-2">
-              <div>
-                <label className="text-xs text-gray-600 block mb-1">Type</label>
-                <select
-                  value={encoding.type || 'nominal'}
-                  onChange={(e) => handleTypeChange(e.target.value as FieldType)}
-                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
-                >
-                  <option value="quantitative">Quantitative</option>
-                  <option value="nominal">Nominal</option>
-                  <option value="ordinal">Ordinal</option>
-                  <option value="temporal">Temporal</option>
-                </select>
-              </div>
+              {!isSecondaryChannel && (
+                <div>
+                  <label className="text-xs text-gray-600 block mb-1">Type</label>
+                  <select
+                    value={encoding.type || 'nominal'}
+                    onChange={(e) => handleTypeChange(e.target.value as FieldType)}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="quantitative">Quantitative</option>
+                    <option value="nominal">Nominal</option>
+                    <option value="ordinal">Ordinal</option>
+                    <option value="temporal">Temporal</option>
+                  </select>
+                </div>
+              )}
 
-              <div>
-                <label className="text-xs text-gray-600 block mb-1">Aggregate</label>
-                <select
-                  value={encoding.aggregate || ''}
-                  onChange={(e) => handleAggregateChange(e.target.value)}
-                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
-                >
-                  <option value="">None</option>
-                  {AGGREGATE_OPS.map((op) => (
-                    <option key={op} value={op}>
-                      {op}
-                    </option>
-                  ))}
-                </select>
-              </div>
+              {showAggregate && (
+                <div>
+                  <label className="text-xs text-gray-600 block mb-1">Aggregate</label>
+                  <select
+                    value={encoding.aggregate || ''}
+                    onChange={(e) => handleAggregateChange(e.target.value)}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">None</option>
+                    {AGGREGATE_OPS.map((op) => (
+                      <option key={op} value={op}>
+                        {op}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </>
         )}
+
+        {channel === 'color' && encoding?.field && <PaletteEditor encoding={encoding} onUpdate={onUpdate} />}
+
+        {isConditionChannel && (
+          <ConditionRules channel={channel as ConditionChannel} encoding={encoding} onUpdate={onUpdate} />
+        )}
       </div>
     </div>
   );
 }
 
+const DEFAULT_RULE_VALUES: Record<ConditionChannel, string | number> = {
+  color: '#d62728',
+  opacity: 0.3,
+  size: 200,
+};
+
+interface ConditionRulesProps {
+  channel: ConditionChannel;
+  encoding?: EncodingConfig;
+  onUpdate: (config: EncodingConfig | undefined) => void;
+}
+
+/**
+ * "When <test or selection>, use <value>" rules for color, opacity and size; the first matching rule wins
+ */
+function ConditionRules({ channel, encoding, onUpdate }: ConditionRulesProps) {
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const params = useWidgetStore((state) => state.builderState.params);
+  const rules = encoding?.conditions ?? [];
+  const selections = (params ?? []).filter((p) => ['brush', 'click', 'legend'].includes(p.type));
+
+  const update = (conditions: EncodingCondition[]) => {
+    const next = { ...encoding, conditions: conditions.length > 0 ? conditions : undefined };
+    onUpdate(next.field || next.conditions ? next : undefined);
+  };
+
+  const handleAdd = () => {
+    const quantitative =
+      encoding?.type === 'quantitative' && encoding.field
+        ? encoding.field
+        : dataFields.find((f) => getFieldType(f) === 'quantitative')?.name;
+    update([...rules, { test: quantitative ? `${fieldRef(quantitative)} < 0` : '', value: DEFAULT_RULE_VALUES[channel] }]);
+  };
+
+  const handleChange = (index: number, rule: EncodingCondition) => {
+    update(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const handleWhenChange = (index: number, when: string) => {
+    const { test: _test, param: _param, ...rest } = rules[index];
+    handleChange(index, when ? { ...rest, param: when } : { ...rest, test: '' });
+  };
+
+  const renderValueInput = (value: string | number | undefined, onCommit: (value: string | number | undefined) => void) =>
+    channel === 'color' ? (
+      <div className="flex items-center gap-1">
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(String(value ?? '')) ? String(value) : '#000000'}
+          onChange={(e) => onCommit(e.target.value)}
+          className="w-8 h-8 border border-gray-300 rounded flex-shrink-0"
+        />
+        <CommitInput value={value} onCommit={onCommit} placeholder="Default" />
+      </div>
+    ) : (
+      <CommitInput type="number" value={value} onCommit={(v) => onCommit(toNumber(v))} placeholder="Default" />
+    );
+
+  return (
+    <div className="pt-2 border-t border-gray-200 space-y-2">
+      {rules.map((rule, index) => (
+        <div key={index} className="p-2 bg-gray-50 border border-gray-200 rounded space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-600">When</span>
+            <select
+              value={rule.param ?? ''}
+              onChange={(e) => handleWhenChange(index, e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs bg-white"
+            >
+              <option value="">Expression is true</option>
+              {selections.map((p) => (
+                <option key={p.name} value={p.name}>
+                  Inside the {p.name} selection
+                </option>
+              ))}
+              {rule.param && !selections.some((p) => p.name === rule.param) && (
+                <option value={rule.param}>{rule.param} (missing)</option>
+              )}
+            </select>
+            <button
+              onClick={() => update(rules.filter((_, i) => i !== index))}
+              className="text-xs text-red-600 hover:text-red-700"
+              title="Remove rule"
+            >
+              ✕
+            </button>
+          </div>
+          {rule.param === undefined && (
+            <CommitInput
+              value={rule.test}
+              onCommit={(test) => handleChange(index, { ...rule, test: test ?? '' })}
+              placeholder="datum.Profit < 0"
+            />
+          )}
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-600">use</span>
+            <div className="flex-1">
+              {renderValueInput(rule.value, (value) =>
+                handleChange(index, { ...rule, value: value ?? DEFAULT_RULE_VALUES[channel] })
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {rules.length > 0 && !encoding?.field && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-600">Otherwise</span>
+          <div className="flex-1">
+            {renderValueInput(encoding?.value, (value) => onUpdate({ ...encoding, value }))}
+          </div>
+        </div>
+      )}
+
+      <button onClick={handleAdd} className="text-xs text-blue-600 hover:text-blue-700">
+        + Add rule
+      </button>
+    </div>
+  );
+}
+
 export function EncodingsPanel() {
   const builderState = useWidgetStore((state) => state.builderState);
   const vegaSpec = useWidgetStore((state) => state.vegaSpec);
   const setBuilderState = useWidgetStore((state) => state.setBuilderState);
   const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+  // Extra channels added but not yet given a field
+  const [addedChannels, setAddedChannels] = useState<EncodingChannelName[]>([]);
 
   // Detect if current spec is a complex/custom spec
-  const isCustomSpec = !!(
-    vegaSpec.facet ||
-    vegaSpec.layer ||
-    vegaSpec.hconcat ||
-    vegaSpec.vconcat ||
-    vegaSpec.repeat ||
-    (vegaSpec.transform && vegaSpec.transform.length > 3) ||
-    (vegaSpec.data && (vegaSpec.data as any).url)
-  );
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
 
   if (isCustomSpec) {
     return (
@@ -141,7 +297,7 @@ export function EncodingsPanel() {
                 Custom Spec - Builder Disabled
               </p>
               <p className="text-xs text-yellow-700 mb-3">
-                You're viewing a complex spec (faceted, layered, or with external data) that can't be edited through the builder panels.
+                You're viewing a complex spec (concatenated views, external data, or structure the builder can't express) that can't be edited through the builder panels.
               </p>
               <p className="text-xs font-semibold text-yellow-800 mb-1">Options:</p>
               <ul className="text-xs text-yellow-700 space-y-1 list-disc list-inside">
@@ -156,16 +312,50 @@ export function EncodingsPanel() {
     );
   }
 
-  const handleEncodingUpdate = (channel: 'x' | 'y' | 'color' | 'size', config: EncodingConfig | undefined) => {
+  const handleEncodingUpdate = (channel: EncodingChannelName, config: EncodingConfig | undefined) => {
     captureSnapshot(`Update ${channel} encoding`);
-    setBuilderState({
-      encodings: {
-        ...builderState.encodings,
-        [channel]: config,
-      },
-    });
+    const encodings = { ...builderState.encodings, [channel]: config };
+    // A wrapped facet and a row/column grid can't be combined
+    if (config && channel === 'facet') {
+      encodings.row = undefined;
+      encodings.column = undefined;
+    } else if (config && (channel === 'row' || channel === 'column')) {
+      encodings.facet = undefined;
+    }
+    setBuilderState({ encodings });
+  };
+
+  const handleExtraChannelUpdate = (channel: EncodingChannelName, config: EncodingConfig | undefined) => {
+    if (!config) {
+      setAddedChannels(addedChannels.filter((c) => c !== channel));
+    }
+    handleEncodingUpdate(channel, config);
+  };
+
+  const visibleExtraChannels = EXTRA_CHANNELS.filter(
+    ({ channel }) => builderState.encodings[channel] || addedChannels.includes(channel)
+  );
+  const availableExtraChannels = EXTRA_CHANNELS.filter((c) => !visibleExtraChannels.includes(c));
+
+  const handleColumnsChange = (value: string) => {
+    const facet = builderState.encodings.facet;
+    if (!facet) return;
+    const columns = parseInt(value, 10);
+    handleEncodingUpdate('facet', { ...facet, columns: columns > 0 ? columns : undefined });
+  };
+
+  const handleResolveChange = (axis: 'x' | 'y', mode: ResolveMode) => {
+    captureSnapshot(`Use ${mode} ${axis} scales`);
+    setBuilderState(axis === 'x' ? { resolveX: mode } : { resolveY: mode });
   };
 
+  const facetChannels: { channel: FacetChannel; label: string }[] = [
+    { channel: 'row', label: 'Rows' },
+    { channel: 'column', label: 'Columns' },
+    { channel: 'facet', label: 'Wrapped Panels' },
+  ];
+  const isFaceted = facetChannels.some(({ channel }) => builderState.encodings[channel]?.field);
+
   return (
     <div className="space-y-1">
       <h3 className="text-sm font-semibold mb-3">Encodings</h3>
@@ -197,6 +387,83 @@ export function EncodingsPanel() {
         encoding={builderState.encodings.size}
         onUpdate={(config) => handleEncodingUpdate('size', config)}
       />
+
+      {visibleExtraChannels.map(({ channel, label }) => (
+        <EncodingChannel
+          key={channel}
+          label={label}
+          channel={channel}
+          encoding={builderState.encodings[channel]}
+          onUpdate={(config) => handleExtraChannelUpdate(channel, config)}
+        />
+      ))}
+
+      {availableExtraChannels.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => setAddedChannels([...addedChannels, e.target.value as EncodingChannelName])}
+          className="w-full px-2 py-1.5 mb-3 border border-dashed border-gray-400 rounded text-sm text-gray-700 bg-white"
+        >
+          <option value="">+ Add channel…</option>
+          {availableExtraChannels.map(({ channel, label, description }) => (
+            <option key={channel} value={channel}>
+              {label} — {description}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="border-t pt-4">
+        <h3 className="text-sm font-semibold mb-1">Small Multiples</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          Split the chart into one panel per value: a grid of rows/columns, or panels wrapped into rows.
+        </p>
+
+        {facetChannels.map(({ channel, label }) => (
+          <EncodingChannel
+            key={channel}
+            label={label}
+            channel={channel}
+            encoding={builderState.encodings[channel]}
+            onUpdate={(config) => handleEncodingUpdate(channel, config)}
+            showAggregate={false}
+          />
+        ))}
+
+        {builderState.encodings.facet?.field && (
+          <div className="mb-3">
+            <label className="text-xs text-gray-600 block mb-1">Panels per row</label>
+            <input
+              type="number"
+              min={1}
+              value={builderState.encodings.facet.columns ?? ''}
+              onChange={(e) => handleColumnsChange(e.target.value)}
+              placeholder="Auto"
+              className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+            />
+          </div>
+        )}
+
+        {isFaceted && (
+          <div className="grid grid-cols-2 gap-2">
+            {(['x', 'y'] as const).map((axis) => (
+              <div key={axis}>
+                <label className="text-xs text-gray-600 block mb-1">{axis.toUpperCase()} scale</label>
+                <select
+                  value={(axis === 'x' ? builderState.resolveX : builderState.resolveY) ?? 'shared'}
+                  onChange={(e) => handleResolveChange(axis, e.target.value as ResolveMode)}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                >
+                  <option value="shared">Shared</option>
+                  <option value="independent">Independent</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <InteractionsEditor />
     </div>
   );
 }
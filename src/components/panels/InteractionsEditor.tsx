@@ -0,0 +1,270 @@
+import { useWidgetStore } from '@/store/widgetStore';
+import { createParam, isChannelSet } from '@/utils/specBuilder';
+import { FieldPicker } from '@/components/FieldPicker';
+import { CommitInput, toNumber } from '@/components/CommitInput';
+import type { ChartParam, InputControl, ParamType } from '@/types';
+
+const PARAM_TYPES: { value: ParamType; label: string; description: string }[] = [
+  { value: 'brush', label: 'Brush', description: 'Drag to select a range of marks' },
+  { value: 'click', label: 'Click', description: 'Click marks to select them (shift-click for several)' },
+  { value: 'legend', label: 'Legend', description: 'Click legend entries to highlight a series' },
+  { value: 'zoom', label: 'Pan & Zoom', description: 'Drag to pan and scroll to zoom the axes' },
+  { value: 'input', label: 'Control', description: 'A slider, dropdown or radio buttons next to the chart' },
+];
+
+const AXIS_OPTIONS: { value: string; label: string }[] = [
+  { value: 'x,y', label: 'X and Y' },
+  { value: 'x', label: 'X only' },
+  { value: 'y', label: 'Y only' },
+];
+
+const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white';
+
+/**
+ * Selections (brush, click, legend), pan/zoom and input controls bound to Vega-Lite parameters
+ */
+export function InteractionsEditor() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+
+  const params = builderState.params ?? [];
+
+  const updateParams = (next: ChartParam[], description: string) => {
+    captureSnapshot(description);
+    setBuilderState({ params: next });
+  };
+
+  const typeLabel = (type: ParamType) => PARAM_TYPES.find((t) => t.value === type)?.label ?? type;
+
+  const handleAdd = (type: ParamType) => {
+    const field =
+      type === 'input' ? builderState.encodings.color?.field ?? builderState.encodings.x?.field ?? dataFields[0]?.name : undefined;
+    updateParams([...params, createParam(type, builderState, dataFields, field)], `Add ${typeLabel(type)} interaction`);
+  };
+
+  const handleChange = (index: number, updates: Partial<ChartParam>) => {
+    updateParams(
+      params.map((p, i) => (i === index ? { ...p, ...updates } : p)),
+      `Edit ${typeLabel(params[index].type)} interaction`
+    );
+  };
+
+  // A new field or control type needs fresh ranges/options from the data
+  const handleInputReset = (index: number, field: string | undefined, input?: InputControl) => {
+    const param = params[index];
+    const fresh = createParam('input', { ...builderState, params: [] }, dataFields, field, input);
+    handleChange(index, { ...fresh, name: param.name, effect: param.effect, color: param.color });
+  };
+
+  const handleRemove = (index: number) => {
+    updateParams(
+      params.filter((_, i) => i !== index),
+      `Remove ${typeLabel(params[index].type)} interaction`
+    );
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <h3 className="text-sm font-semibold mb-1">Interactions</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Let viewers select, zoom or filter the chart. Highlighting fades everything outside the selection.
+      </p>
+
+      {params.map((param, index) => (
+        <div key={param.name} className="p-3 border border-gray-300 rounded mb-3 bg-gray-50 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-semibold">{typeLabel(param.type)}</span>
+            <code className="flex-1 text-xs text-gray-500 truncate" title="Parameter name">
+              {param.name}
+            </code>
+            <button
+              onClick={() => handleRemove(index)}
+              className="text-xs text-red-600 hover:text-red-700"
+              title="Remove interaction"
+            >
+              Remove
+            </button>
+          </div>
+
+          {(param.type === 'brush' || param.type === 'zoom') && (
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">Axes</label>
+              <select
+                value={param.encodings?.join(',') ?? 'x,y'}
+                onChange={(e) =>
+                  handleChange(index, {
+                    encodings: e.target.value === 'x,y' ? undefined : [e.target.value as 'x' | 'y'],
+                  })
+                }
+                className={inputClass}
+              >
+                {AXIS_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(param.type === 'click' || param.type === 'legend') && (
+            <div>
+              <label className="text-xs text-gray-600 block mb-1">
+                {param.type === 'legend' ? 'Legend field' : 'Select all marks with the same'}
+              </label>
+              <FieldPicker
+                value={param.field}
+                fields={dataFields}
+                onChange={(field) => handleChange(index, { field: field || undefined })}
+                placeholder={param.type === 'legend' ? '— Color field —' : '— Just the clicked mark —'}
+              />
+              {param.type === 'legend' && !param.field && !builderState.encodings.color?.field && (
+                <p className="mt-1 text-xs text-yellow-700">Encode a field as Color to get a legend to click.</p>
+              )}
+            </div>
+          )}
+
+          {param.type !== 'zoom' && param.type !== 'input' && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!param.highlight}
+                onChange={(e) => handleChange(index, { highlight: e.target.checked || undefined })}
+                className="w-4 h-4"
+              />
+              Highlight the selection
+              {isChannelSet(builderState.encodings.opacity) && (
+                <span className="text-xs text-gray-500">(unavailable while Opacity is encoded)</span>
+              )}
+            </label>
+          )}
+
+          {param.type === 'input' && (
+            <InputParamEditor
+              param={param}
+              onChange={(updates) => handleChange(index, updates)}
+              onReset={(field, input) => handleInputReset(index, field, input)}
+            />
+          )}
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && handleAdd(e.target.value as ParamType)}
+        className="w-full px-3 py-2 border border-dashed border-gray-400 rounded text-sm text-gray-700 bg-white"
+      >
+        <option value="">+ Add interaction…</option>
+        {PARAM_TYPES.map((t) => (
+          <option key={t.value} value={t.value} title={t.description}>
+            {t.label} — {t.description}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface InputParamEditorProps {
+  param: ChartParam;
+  onChange: (updates: Partial<ChartParam>) => void;
+  onReset: (field: string | undefined, input?: InputControl) => void;
+}
+
+function InputParamEditor({ param, onChange, onReset }: InputParamEditorProps) {
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const control = param.input ?? 'range';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Control</label>
+          <select
+            value={control}
+            onChange={(e) => onReset(param.field, e.target.value as InputControl)}
+            className={inputClass}
+          >
+            <option value="range">Slider</option>
+            <option value="select">Dropdown</option>
+            <option value="radio">Radio buttons</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Label</label>
+          <CommitInput value={param.label} onCommit={(label) => onChange({ label })} />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-gray-600 block mb-1">Field</label>
+        <FieldPicker value={param.field} fields={dataFields} onChange={(field) => onReset(field || undefined, control)} />
+      </div>
+
+      {control === 'range' ? (
+        <div className="grid grid-cols-4 gap-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Keep</label>
+            <select
+              value={param.compare ?? '>='}
+              onChange={(e) => onChange({ compare: e.target.value as ChartParam['compare'] })}
+              className={inputClass}
+            >
+              <option value=">=">≥</option>
+              <option value="<=">≤</option>
+              <option value="==">=</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Min</label>
+            <CommitInput type="number" value={param.min} onCommit={(v) => onChange({ min: toNumber(v) })} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Max</label>
+            <CommitInput type="number" value={param.max} onCommit={(v) => onChange({ max: toNumber(v) })} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Step</label>
+            <CommitInput type="number" value={param.step} onCommit={(v) => onChange({ step: toNumber(v) })} placeholder="Auto" />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Options (comma-separated)</label>
+          <CommitInput
+            value={param.options?.join(', ')}
+            onCommit={(v) => onChange({ options: v ? v.split(',').map((o) => o.trim()).filter(Boolean) : [] })}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Effect</label>
+          <select
+            value={param.effect ?? ''}
+            onChange={(e) => onChange({ effect: (e.target.value || undefined) as ChartParam['effect'] })}
+            className={inputClass}
+          >
+            <option value="filter">Filter rows</option>
+            <option value="color">Colour matches</option>
+            <option value="">None (value only)</option>
+          </select>
+        </div>
+        {param.effect === 'color' && (
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Match colour</label>
+            <input
+              type="color"
+              value={param.color ?? '#e45756'}
+              onChange={(e) => onChange({ color: e.target.value })}
+              className="w-full h-8 border border-gray-300 rounded"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
 import { useWidgetStore } from '@/store/widgetStore';
-import type { MarkType, StackMode } from '@/types';
+import { detectCustomSpec } from '@/utils/specParser';
+import { isMarkAllowed } from '@/utils/featureFlags';
+import { getFieldType } from '@/utils/fieldInference';
+import { EncodingChannel } from './EncodingsPanel';
+import { adaptEncodingsToMark } from '@/utils/specBuilder';
+import { CommitInput, toNumber } from '@/components/CommitInput';
+import type { ChartLayer, EncodingConfig, LayerChannel, MarkConfig, MarkType, ProjectionType, StackMode } from '@/types';
 
 const MARK_TYPES: { value: MarkType; label: string; description: string }[] = [
   { value: 'bar', label: 'Bar', description: 'Bar chart' },
@@ -12,29 +18,59 @@ const MARK_TYPES: { value: MarkType; label: string; description: string }[] = [
   { value: 'rect', label: 'Rect', description: 'Rectangle marks' },
   { value: 'rule', label: 'Rule', description: 'Line rules' },
   { value: 'text', label: 'Text', description: 'Text marks' },
+  { value: 'arc', label: 'Arc', description: 'Pie / donut chart' },
+  { value: 'trail', label: 'Trail', description: 'Line with varying width' },
+  { value: 'boxplot', label: 'Boxplot', description: 'Distribution summary' },
+  { value: 'errorbar', label: 'Error Bar', description: 'Spread around a value' },
+  { value: 'errorband', label: 'Error Band', description: 'Continuous spread band' },
+  { value: 'image', label: 'Image', description: 'Images from a URL field' },
+  { value: 'geoshape', label: 'Geoshape', description: 'Map of GeoJSON features' },
+];
+
+const BOXPLOT_EXTENTS: { value: string; label: string }[] = [
+  { value: '', label: '1.5 × IQR (default)' },
+  { value: '3', label: '3 × IQR' },
+  { value: 'min-max', label: 'Min to max' },
+];
+
+const ERROR_EXTENTS: { value: string; label: string }[] = [
+  { value: '', label: 'Standard error (default)' },
+  { value: 'stdev', label: 'Standard deviation' },
+  { value: 'ci', label: '95% confidence interval' },
+  { value: 'iqr', label: 'Interquartile range' },
+];
+
+const PROJECTIONS: { value: ProjectionType; label: string }[] = [
+  { value: 'equalEarth', label: 'Equal Earth' },
+  { value: 'mercator', label: 'Mercator' },
+  { value: 'naturalEarth1', label: 'Natural Earth' },
+  { value: 'equirectangular', label: 'Equirectangular' },
+  { value: 'albersUsa', label: 'Albers USA' },
+  { value: 'orthographic', label: 'Globe (orthographic)' },
 ];
 
 export function MarkPanel() {
   const builderState = useWidgetStore((state) => state.builderState);
   const vegaSpec = useWidgetStore((state) => state.vegaSpec);
+  const features = useWidgetStore((state) => state.features);
   const setBuilderState = useWidgetStore((state) => state.setBuilderState);
   const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
 
   // Detect if current spec is a complex/custom spec
-  const isCustomSpec = !!(
-    vegaSpec.facet ||
-    vegaSpec.layer ||
-    vegaSpec.hconcat ||
-    vegaSpec.vconcat ||
-    vegaSpec.repeat ||
-    (vegaSpec.transform && vegaSpec.transform.length > 3) ||
-    (vegaSpec.data && (vegaSpec.data as any).url)
-  );
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
 
   const handleMarkChange = (markType: MarkType) => {
     captureSnapshot(`Change mark to ${markType}`);
     setBuilderState({
       mark: { ...builderState.mark, type: markType },
+      encodings: adaptEncodingsToMark(builderState.encodings, builderState.mark.type, markType),
+    });
+  };
+
+  const handleOptionChange = (updates: Partial<MarkConfig>, description: string) => {
+    captureSnapshot(description);
+    setBuilderState({
+      mark: { ...builderState.mark, ...updates },
     });
   };
 
@@ -52,8 +88,15 @@ export function MarkPanel() {
     });
   };
 
-  const canShowPoints = builderState.mark.type === 'line' || builderState.mark.type === 'area';
-  const canStack = builderState.mark.type === 'bar' || builderState.mark.type === 'area';
+  const markType = builderState.mark.type;
+  const canShowPoints = markType === 'line' || markType === 'area';
+  const canStack = markType === 'bar' || markType === 'area';
+  const canRoundCorners = markType === 'arc' || markType === 'bar' || markType === 'rect';
+  const hasOptions =
+    canShowPoints ||
+    canStack ||
+    canRoundCorners ||
+    ['boxplot', 'errorbar', 'errorband', 'image', 'geoshape'].includes(markType);
 
   if (isCustomSpec) {
     return (
@@ -66,7 +109,7 @@ export function MarkPanel() {
                 Custom Spec - Builder Disabled
               </p>
               <p className="text-xs text-yellow-700 mb-3">
-                You're viewing a complex spec (faceted, layered, or with external data) that can't be edited through the builder panels.
+                You're viewing a complex spec (concatenated views, external data, or structure the builder can't express) that can't be edited through the builder panels.
               </p>
               <p className="text-xs font-semibold text-yellow-800 mb-1">Options:</p>
               <ul className="text-xs text-yellow-700 space-y-1 list-disc list-inside">
@@ -86,7 +129,7 @@ export function MarkPanel() {
       <div>
         <h3 className="text-sm font-semibold mb-2">Mark Type</h3>
         <div className="grid grid-cols-2 gap-2">
-          {MARK_TYPES.map((mark) => (
+          {MARK_TYPES.filter((mark) => isMarkAllowed(mark.value, features)).map((mark) => (
             <button
               key={mark.value}
               onClick={() => handleMarkChange(mark.value)}
@@ -136,10 +179,250 @@ export function MarkPanel() {
           </div>
         )}
 
-        {!canShowPoints && !canStack && (
+        {markType === 'arc' && (
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Inner radius</label>
+              <CommitInput
+                type="number"
+                value={builderState.mark.innerRadius}
+                onCommit={(v) => handleOptionChange({ innerRadius: toNumber(v) }, 'Change inner radius')}
+                placeholder="0 (pie)"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Slice gap</label>
+              <CommitInput
+                type="number"
+                value={builderState.mark.padAngle}
+                onCommit={(v) => handleOptionChange({ padAngle: toNumber(v) }, 'Change slice gap')}
+                placeholder="Radians, e.g. 0.02"
+              />
+            </div>
+          </div>
+        )}
+
+        {canRoundCorners && (
+          <div className="mb-2">
+            <label className="text-sm font-medium mb-1 block">Corner radius</label>
+            <CommitInput
+              type="number"
+              value={builderState.mark.cornerRadius}
+              onCommit={(v) => handleOptionChange({ cornerRadius: toNumber(v) }, 'Change corner radius')}
+              placeholder="0"
+            />
+          </div>
+        )}
+
+        {(markType === 'boxplot' || markType === 'errorbar' || markType === 'errorband') && (
+          <div className="mb-2">
+            <label className="text-sm font-medium mb-1 block">
+              {markType === 'boxplot' ? 'Whiskers' : 'Extent'}
+            </label>
+            <select
+              value={builderState.mark.extent === undefined ? '' : String(builderState.mark.extent)}
+              onChange={(e) => {
+                const value = e.target.value;
+                const extent = value === '' ? undefined : Number.isFinite(Number(value)) ? Number(value) : value;
+                handleOptionChange({ extent: extent as MarkConfig['extent'] }, 'Change extent');
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+            >
+              {(markType === 'boxplot' ? BOXPLOT_EXTENTS : ERROR_EXTENTS).map((extent) => (
+                <option key={extent.value} value={extent.value}>
+                  {extent.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {markType === 'image' && (
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <div>
+              <label className="text-sm font-medium mb-1 block">Image width</label>
+              <CommitInput
+                type="number"
+                value={builderState.mark.width}
+                onCommit={(v) => handleOptionChange({ width: toNumber(v) }, 'Change image width')}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1 block">Image height</label>
+              <CommitInput
+                type="number"
+                value={builderState.mark.height}
+                onCommit={(v) => handleOptionChange({ height: toNumber(v) }, 'Change image height')}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">Map a field with image URLs to the Image URL channel.</p>
+          </div>
+        )}
+
+        {markType === 'geoshape' && (
+          <div className="mb-2">
+            <label className="text-sm font-medium mb-1 block">Projection</label>
+            <select
+              value={builderState.mark.projection ?? ''}
+              onChange={(e) =>
+                handleOptionChange(
+                  { projection: (e.target.value || undefined) as ProjectionType | undefined },
+                  'Change projection'
+                )
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+            >
+              <option value="">Default</option>
+              {PROJECTIONS.map((projection) => (
+                <option key={projection.value} value={projection.value}>
+                  {projection.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Each data row should be a GeoJSON feature.</p>
+          </div>
+        )}
+
+        {!hasOptions && (
           <p className="text-sm text-gray-500">No additional options for this mark type</p>
         )}
       </div>
+
+      <LayersEditor />
+    </div>
+  );
+}
+
+/**
+ * Extra marks drawn over the main chart (e.g. a line over bars), sharing its X axis
+ */
+function LayersEditor() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const features = useWidgetStore((state) => state.features);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+
+  const layers = builderState.layers ?? [];
+  const allowedMarks = MARK_TYPES.filter((mark) => isMarkAllowed(mark.value, features));
+
+  const updateLayers = (next: ChartLayer[], description: string) => {
+    captureSnapshot(description);
+    setBuilderState({ layers: next });
+  };
+
+  const handleAdd = () => {
+    // Start from a quantitative field the main chart isn't already plotting
+    const mainY = builderState.encodings.y;
+    const field = dataFields.find((f) => getFieldType(f) === 'quantitative' && f.name !== mainY?.field);
+    const markType = allowedMarks.some((m) => m.value === 'line') ? 'line' : allowedMarks[0]?.value ?? 'line';
+    const layer: ChartLayer = {
+      mark: { type: markType, stacked: null },
+      encodings: field ? { y: { field: field.name, type: 'quantitative', aggregate: mainY?.aggregate } } : {},
+    };
+    updateLayers([...layers, layer], 'Add layer');
+  };
+
+  const handleMarkChange = (index: number, type: MarkType) => {
+    updateLayers(
+      layers.map((l, i) => (i === index ? { ...l, mark: { ...l.mark, type } } : l)),
+      `Change layer ${index + 2} mark to ${type}`
+    );
+  };
+
+  const handleEncodingChange = (index: number, channel: LayerChannel, config: EncodingConfig | undefined) => {
+    updateLayers(
+      layers.map((l, i) => (i === index ? { ...l, encodings: { ...l.encodings, [channel]: config } } : l)),
+      `Update layer ${index + 2} ${channel} encoding`
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    updateLayers(
+      layers.filter((_, i) => i !== index),
+      `Remove layer ${index + 2}`
+    );
+  };
+
+  const handleResolveChange = (independent: boolean) => {
+    captureSnapshot(independent ? 'Use separate Y axes' : 'Use a shared Y axis');
+    setBuilderState({ resolveY: independent ? 'independent' : undefined });
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <h3 className="text-sm font-semibold mb-1">Layers</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Extra marks drawn over the main chart, sharing its X axis (e.g. a line or target rule over bars).
+      </p>
+
+      {layers.map((layer, index) => (
+        <div key={index} className="p-3 border border-gray-300 rounded mb-3 bg-gray-50">
+          <div className="flex items-center justify-between mb-2 gap-2">
+            <span className="text-sm font-semibold">Layer {index + 2}</span>
+            <select
+              value={layer.mark.type}
+              onChange={(e) => handleMarkChange(index, e.target.value as MarkType)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {allowedMarks.map((mark) => (
+                <option key={mark.value} value={mark.value}>
+                  {mark.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleRemove(index)}
+              className="text-xs text-red-600 hover:text-red-700"
+              title="Remove layer"
+            >
+              Remove
+            </button>
+          </div>
+
+          <EncodingChannel
+            label="Y Axis"
+            channel="y"
+            encoding={layer.encodings.y}
+            onUpdate={(config) => handleEncodingChange(index, 'y', config)}
+          />
+          <EncodingChannel
+            label="Color"
+            channel="color"
+            encoding={layer.encodings.color}
+            onUpdate={(config) => handleEncodingChange(index, 'color', config)}
+          />
+          {layer.mark.type === 'text' && (
+            <EncodingChannel
+              label="Text"
+              channel="text"
+              encoding={layer.encodings.text}
+              onUpdate={(config) => handleEncodingChange(index, 'text', config)}
+            />
+          )}
+        </div>
+      ))}
+
+      {layers.length > 0 && (
+        <label className="flex items-center gap-2 mb-3">
+          <input
+            type="checkbox"
+            checked={builderState.resolveY === 'independent'}
+            onChange={(e) => handleResolveChange(e.target.checked)}
+            className="w-4 h-4"
+          />
+          <span className="text-sm">Separate Y axis per layer</span>
+        </label>
+      )}
+
+      <button
+        onClick={handleAdd}
+        disabled={!builderState.encodings.x?.field}
+        className="w-full px-3 py-2 border border-dashed border-gray-400 rounded text-sm text-gray-700 hover:border-gray-500 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title={builderState.encodings.x?.field ? undefined : 'Set an X encoding first'}
+      >
+        + Add layer
+      </button>
     </div>
   );
 }
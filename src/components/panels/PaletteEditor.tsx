@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useWidgetStore } from '@/store/widgetStore';
+import { COLOR_SCHEMES, checkPalette, paletteKindFor, schemeColors, schemeKind } from '@/utils/palettes';
+import { DEFAULT_THEME } from '@/utils/themes';
+import type { EncodingConfig, PaletteKind, SavedPalette, ScaleConfig } from '@/types';
+
+// Saved palettes are a personal preference, shared by every widget on this browser
+const SAVED_PALETTES_KEY = 'vega_widget_saved_palettes';
+
+const KIND_LABELS: Record<PaletteKind, string> = {
+  categorical: 'Categorical',
+  sequential: 'Sequential',
+  diverging: 'Diverging',
+};
+
+// Vega-Lite's defaults when neither the scale nor the theme sets colors
+const DEFAULT_SCHEMES: Record<PaletteKind, string> = {
+  categorical: 'tableau10',
+  sequential: 'blues',
+  diverging: 'blueorange',
+};
+
+function loadSavedPalettes(): SavedPalette[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_PALETTES_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function Swatches({ colors, size = 'w-3 h-3' }: { colors: string[]; size?: string }) {
+  return (
+    <span className="flex">
+      {colors.map((color, i) => (
+        <span key={i} className={`${size} flex-shrink-0`} style={{ background: color }} title={color} />
+      ))}
+    </span>
+  );
+}
+
+interface PaletteEditorProps {
+  encoding: EncodingConfig;
+  onUpdate: (config: EncodingConfig) => void;
+}
+
+/**
+ * Scheme, per-category colors and saved palettes for the color channel, with colour-blind and contrast checks
+ */
+export function PaletteEditor({ encoding, onUpdate }: PaletteEditorProps) {
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const background = useWidgetStore(
+    (state) => state.builderState.background ?? (state.builderState.theme ?? DEFAULT_THEME).config.background
+  );
+  const themeCategory = useWidgetStore((state) => (state.builderState.theme ?? DEFAULT_THEME).config.range?.category);
+
+  const scale: ScaleConfig = encoding.scale ?? {};
+  const isDiscrete = encoding.type === 'nominal' || encoding.type === 'ordinal';
+  const [pickedKind, setKind] = useState<PaletteKind>(() => schemeKind(scale.scheme) ?? paletteKindFor(encoding.type));
+  const [saved, setSaved] = useState<SavedPalette[]>(loadSavedPalettes);
+  const [saveName, setSaveName] = useState('');
+
+  // Continuous fields need a continuous palette
+  const kinds = (Object.keys(KIND_LABELS) as PaletteKind[]).filter((k) => isDiscrete || k !== 'categorical');
+  const kind = kinds.includes(pickedKind) ? pickedKind : 'sequential';
+
+  // Vega-Lite orders categories by value, and assigns palette colors in that order
+  const field = dataFields.find((f) => f.name === encoding.field);
+  const categories = isDiscrete
+    ? (field?.stats?.topValues ?? []).map((v) => String(v.value)).sort((a, b) => a.localeCompare(b))
+    : [];
+
+  const basePalette: string[] = scale.range
+    ? scale.range.map(String)
+    : scale.scheme
+      ? schemeColors(scale.scheme, 20)
+      : Array.isArray(themeCategory)
+        ? themeCategory
+        : schemeColors(DEFAULT_SCHEMES.categorical, 20);
+  const domain = scale.range ? scale.domain?.map(String) : undefined;
+  const categoryColor = (value: string, index: number) => {
+    const mapped = domain?.indexOf(value) ?? -1;
+    if (mapped >= 0 && scale.range?.[mapped] !== undefined) return String(scale.range[mapped]);
+    return basePalette[index % basePalette.length];
+  };
+
+  // Colors as drawn, for the accessibility checks and for saving
+  const continuousScheme = scale.scheme ?? DEFAULT_SCHEMES[kind];
+  const colorsInUse = isDiscrete
+    ? categories.map(categoryColor)
+    : scale.range
+      ? scale.range.map(String)
+      : schemeColors(continuousScheme, 7);
+  const warnings = checkPalette(colorsInUse, isDiscrete ? 'categorical' : kind, background ?? '#ffffff');
+
+  const updateScale = (next: ScaleConfig, keep: (keyof ScaleConfig)[]) => {
+    const kept = Object.fromEntries(keep.filter((key) => scale[key] !== undefined).map((key) => [key, scale[key]]));
+    const merged = Object.fromEntries(Object.entries({ ...kept, ...next }).filter(([, v]) => v !== undefined));
+    onUpdate({ ...encoding, scale: Object.keys(merged).length > 0 ? merged : undefined });
+  };
+
+  // Per-category colors replace the scheme; quantitative domains (e.g. [0, 100]) are left alone
+  const colorKeeps: (keyof ScaleConfig)[] = isDiscrete ? ['reverse', 'zero'] : ['domain', 'reverse', 'zero'];
+
+  const handleSchemeChange = (scheme: string) => updateScale({ scheme }, colorKeeps);
+
+  const handleCategoryColorChange = (index: number, color: string) => {
+    const range = categories.map((value, i) => (i === index ? color : categoryColor(value, i)));
+    updateScale({ domain: categories, range }, colorKeeps);
+  };
+
+  const handleApplySaved = (palette: SavedPalette) => updateScale({ range: palette.colors }, colorKeeps);
+
+  const storeSaved = (next: SavedPalette[]) => {
+    setSaved(next);
+    localStorage.setItem(SAVED_PALETTES_KEY, JSON.stringify(next));
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name || colorsInUse.length === 0) return;
+    const palette: SavedPalette = { name, kind: isDiscrete ? 'categorical' : kind, colors: colorsInUse };
+    storeSaved([...saved.filter((p) => p.name !== name), palette]);
+    setSaveName('');
+  };
+
+  const hasCustomColors = scale.scheme !== undefined || scale.range !== undefined;
+
+  return (
+    <div className="pt-2 border-t border-gray-200 space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-gray-600">Palette</label>
+        {hasCustomColors && (
+          <button
+            onClick={() => updateScale({}, colorKeeps)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+            title="Use the theme's colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        {kinds.map((k) => (
+          <button
+            key={k}
+            onClick={() => setKind(k)}
+            aria-pressed={kind === k}
+            className={`flex-1 px-2 py-1 rounded border text-xs ${
+              kind === k ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700'
+            }`}
+          >
+            {KIND_LABELS[k]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {COLOR_SCHEMES[kind].map((name) => (
+          <button
+            key={name}
+            onClick={() => handleSchemeChange(name)}
+            aria-pressed={scale.scheme === name}
+            className={`p-1 rounded border text-left ${
+              scale.scheme === name ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-400'
+            }`}
+          >
+            <Swatches colors={schemeColors(name, 8)} />
+            <span className="block text-xs text-gray-600 mt-0.5">{name}</span>
+          </button>
+        ))}
+      </div>
+
+      {!isDiscrete && (
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={!!scale.reverse}
+            onChange={(e) => updateScale({ reverse: e.target.checked || undefined }, ['scheme', 'domain', 'range', 'zero'])}
+            className="w-4 h-4"
+          />
+          Reverse
+        </label>
+      )}
+
+      {categories.length > 0 && (
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Colors by {encoding.field}</label>
+          <div className="space-y-1 max-h-48 overflow-auto">
+            {categories.map((value, index) => {
+              const color = categoryColor(value, index);
+              return (
+                <div key={value} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={/^#[0-9a-f]{6}$/i.test(color) ? color : '#000000'}
+                    onChange={(e) => handleCategoryColorChange(index, e.target.value)}
+                    className="w-8 h-6 border border-gray-300 rounded flex-shrink-0"
+                    aria-label={`Color for ${value}`}
+                  />
+                  <span className="text-xs truncate" title={value}>
+                    {value}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          {field?.stats?.unique !== undefined && field.stats.unique > categories.length && (
+            <p className="text-xs text-gray-500 mt-1">
+              Other values ({field.stats.unique - categories.length}) take the next palette colors.
+            </p>
+          )}
+        </div>
+      )}
+
+      {warnings.map((warning, i) => (
+        <div key={i} className="p-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded">
+          <Swatches colors={warning.colors} />
+          <p className="mt-1">{warning.message}</p>
+        </div>
+      ))}
+
+      <div>
+        <label className="text-xs text-gray-600 block mb-1">Saved palettes</label>
+        {saved.length === 0 && <p className="text-xs text-gray-500">None yet</p>}
+        <div className="space-y-1">
+          {saved.map((palette) => (
+            <div key={palette.name} className="flex items-center gap-2">
+              <button
+                onClick={() => handleApplySaved(palette)}
+                className="flex-1 flex items-center gap-2 p-1 rounded border border-gray-200 hover:border-gray-400 text-left"
+                title={`${KIND_LABELS[palette.kind]} palette`}
+              >
+                <Swatches colors={palette.colors.slice(0, 10)} />
+                <span className="text-xs truncate">{palette.name}</span>
+              </button>
+              <button
+                onClick={() => storeSaved(saved.filter((p) => p.name !== palette.name))}
+                className="text-xs text-red-600 hover:text-red-700"
+                title="Delete palette"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-1">
+          <input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Name"
+            className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!saveName.trim()}
+            className="px-2 py-1 text-xs bg-gray-100 border border-gray-300 rounded hover:bg-gray-200 disabled:opacity-50"
+          >
+            Save current
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,44 @@
 import { useState } from 'react';
 import { useWidgetStore } from '@/store/widgetStore';
 import { buildSpec } from '@/utils/specBuilder';
-import { parseSpecToBuilderState } from '@/utils/specParser';
+import { validateSchema } from '@/utils/specValidator';
+import { UneditablePartsNotice } from '@/components/UneditablePartsNotice';
+import type { ValidationError } from '@/types';
+
+function ValidationList({ title, errors }: { title: string; errors: ValidationError[] }) {
+  return (
+    <div
+      className={`mt-2 p-2 border rounded text-xs ${
+        errors.some((e) => e.severity === 'error') ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+      }`}
+    >
+      <p className="font-semibold text-gray-800 mb-1">{title}</p>
+      <ul className="space-y-1 max-h-40 overflow-auto">
+        {errors.map((e, i) => (
+          <li key={i} className={e.severity === 'error' ? 'text-red-700' : 'text-yellow-800'}>
+            {e.severity === 'error' ? '❌' : '⚠️'} <code className="font-mono">{e.path}</code> — {e.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
 
 export function SpecPanel() {
   const vegaSpec = useWidgetStore((state) => state.vegaSpec);
   const data = useWidgetStore((state) => state.data);
   const dataFields = useWidgetStore((state) => state.dataFields);
-  const setSpec = useWidgetStore((state) => state.setSpec);
+  const loadSpec = useWidgetStore((state) => state.loadSpec);
   const setData = useWidgetStore((state) => state.setData);
-  const setDataOnly = useWidgetStore((state) => state.setDataOnly);
   const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+  const validationErrors = useWidgetStore((state) => state.validationErrors);
+  const callbacks = useWidgetStore((state) => state.callbacks);
 
   const [editMode, setEditMode] = useState(false);
   const [specText, setSpecText] = useState(JSON.stringify(vegaSpec, null, 2));
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveErrors, setSaveErrors] = useState<ValidationError[]>([]);
   const [showDataInSpec, setShowDataInSpec] = useState(false);
 
   // Get the display spec (optionally with inline data)
@@ -48,60 +71,49 @@ export function SpecPanel() {
     a.download = 'vega-lite-spec.json';
     a.click();
     URL.revokeObjectURL(url);
+    callbacks.onExport?.('json', blob);
   };
 
   const handleEdit = () => {
     setEditMode(true);
     setSpecText(JSON.stringify(vegaSpec, null, 2));
     setError(null);
+    setSaveErrors([]);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     try {
       const parsed = JSON.parse(specText);
 
       // Basic validation - check for mark in spec or nested spec (for faceted charts)
-      if (!parsed.mark && !parsed.spec?.mark && !parsed.layer) {
+      if (!parsed.mark && !parsed.spec?.mark && !parsed.spec?.layer && !parsed.layer) {
         throw new Error('Invalid Vega-Lite spec: missing mark (or layer/spec)');
       }
 
+      // Schema validation - field checks run on the saved spec once its data is known
+      const schemaErrors = await validateSchema(parsed);
+      if (schemaErrors.length > 0) {
+        setError(null);
+        setSaveErrors(schemaErrors);
+        return;
+      }
+
       // Apply the spec by updating the store directly
       captureSnapshot('Manual spec edit');
 
-      // Check if spec has inline data and extract it
-      if (parsed.data && parsed.data.values && Array.isArray(parsed.data.values)) {
-        // Has inline data - extract it to Data tab
-        const specWithoutData = { ...parsed };
-        const extractedData = parsed.data.values;
-        delete specWithoutData.data;
-        specWithoutData.data = { name: 'table' };
-
-        // Parse the spec back to builder state (best-effort)
-        const parsedBuilderState = parseSpecToBuilderState(specWithoutData);
-
-        // Update spec and builder state FIRST (without regenerating from builder state)
-        setSpec(specWithoutData, parsedBuilderState);
-
-        // Then update data separately WITHOUT regenerating the spec (preserves custom spec)
-        setDataOnly(extractedData);
-      } else if (parsed.data && parsed.data.url) {
-        // Has external URL - warn user but keep the spec as-is
-        if (process.env.NODE_ENV === 'development') {
-          console.warn('Spec uses external data URL:', parsed.data.url);
-          console.warn('This may fail due to CORS. Consider fetching and pasting as inline data.');
-        }
-
-        // Keep the spec as-is (don't try to parse to builder state for complex specs)
-        setSpec(parsed, {});
-      } else {
-        // No data or uses named dataset - keep as-is
-        const parsedBuilderState = parseSpecToBuilderState(parsed);
-        setSpec(parsed, parsedBuilderState);
+      if (parsed.data?.url && process.env.NODE_ENV === 'development') {
+        console.warn('Spec uses external data URL:', parsed.data.url);
+        console.warn('This may fail due to CORS. Consider fetching and pasting as inline data.');
       }
 
+      // Inline data is extracted to the Data tab; the spec is parsed back to builder state (unsupported parts become overrides)
+      loadSpec(parsed);
+
       setEditMode(false);
       setError(null);
+      setSaveErrors([]);
     } catch (err) {
+      setSaveErrors([]);
       setError(err instanceof Error ? err.message : 'Invalid JSON');
     }
   };
@@ -110,6 +122,7 @@ export function SpecPanel() {
     setEditMode(false);
     setSpecText(JSON.stringify(vegaSpec, null, 2));
     setError(null);
+    setSaveErrors([]);
   };
 
   return (
@@ -187,6 +200,20 @@ export function SpecPanel() {
             {error}
           </div>
         )}
+
+        {editMode && saveErrors.length > 0 && (
+          <ValidationList title="Spec not saved — fix these schema errors:" errors={saveErrors} />
+        )}
+
+        {!editMode && (
+          <div className="mt-2">
+            <UneditablePartsNotice />
+          </div>
+        )}
+
+        {!editMode && validationErrors.length > 0 && (
+          <ValidationList title={`Validation issues (${validationErrors.length})`} errors={validationErrors} />
+        )}
       </div>
 
       {editMode ? (
@@ -0,0 +1,460 @@
+import { useWidgetStore } from '@/store/widgetStore';
+import { detectCustomSpec } from '@/utils/specParser';
+import { CommitInput, toNumber } from '@/components/CommitInput';
+import { DEFAULT_THEME, findTheme, getThemes } from '@/utils/themes';
+import type { AxisConfig, BuilderState, FacetChannel, HeaderConfig, LegendConfig } from '@/types';
+
+type AxisChannel = 'x' | 'y';
+type LegendChannel = 'color' | 'size';
+type Padding = NonNullable<BuilderState['padding']>;
+
+const LEGEND_ORIENTS: NonNullable<LegendConfig['orient']>[] = ['right', 'left', 'top', 'bottom', 'none'];
+const HEADER_ORIENTS: NonNullable<HeaderConfig['labelOrient']>[] = ['top', 'bottom', 'left', 'right'];
+const FACET_LABELS: Record<FacetChannel, string> = { row: 'Row', column: 'Column', facet: 'Panel' };
+const PADDING_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+
+/**
+ * Drop undefined keys; returns undefined when nothing is left
+ */
+function compact<T extends object>(obj: T): T | undefined {
+  const entries = Object.entries(obj).filter(([, v]) => v !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+export function StylePanel() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const vegaSpec = useWidgetStore((state) => state.vegaSpec);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+  const hostThemes = useWidgetStore((state) => state.themes);
+
+  // Detect if current spec is a complex/custom spec
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
+
+  if (isCustomSpec) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-yellow-50 border border-yellow-300 rounded">
+          <div className="flex items-start gap-2">
+            <span className="text-yellow-600 font-bold text-lg">⚠️</span>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-yellow-800 mb-2">
+                Custom Spec - Builder Disabled
+              </p>
+              <p className="text-xs text-yellow-700 mb-3">
+                You're viewing a complex spec (concatenated views, external data, or structure the builder can't express) that can't be edited through the builder panels.
+              </p>
+              <p className="text-xs font-semibold text-yellow-800 mb-1">Options:</p>
+              <ul className="text-xs text-yellow-700 space-y-1 list-disc list-inside">
+                <li>Use the <strong>AI Assistant</strong> tab (GenAI mode) to modify this spec</li>
+                <li>Use the <strong>Spec</strong> tab to manually edit the JSON</li>
+                <li>Reset to a simple chart to use the builder</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const update = (updates: Partial<BuilderState>, description: string) => {
+    captureSnapshot(description);
+    setBuilderState(updates);
+  };
+
+  const handleAxisChange = (channel: AxisChannel, updates: Partial<AxisConfig>) => {
+    const encoding = builderState.encodings[channel];
+    if (!encoding) return;
+    update(
+      {
+        encodings: {
+          ...builderState.encodings,
+          [channel]: { ...encoding, axis: compact({ ...encoding.axis, ...updates }) },
+        },
+      },
+      `Update ${channel} axis`
+    );
+  };
+
+  const handleLegendChange = (channel: LegendChannel, updates: Partial<LegendConfig>) => {
+    const encoding = builderState.encodings[channel];
+    if (!encoding) return;
+    update(
+      {
+        encodings: {
+          ...builderState.encodings,
+          [channel]: { ...encoding, legend: compact({ ...encoding.legend, ...updates }) },
+        },
+      },
+      `Update ${channel} legend`
+    );
+  };
+
+  const handleHeaderChange = (channel: FacetChannel, updates: Partial<HeaderConfig>) => {
+    const encoding = builderState.encodings[channel];
+    if (!encoding) return;
+    update(
+      {
+        encodings: {
+          ...builderState.encodings,
+          [channel]: { ...encoding, header: compact({ ...encoding.header, ...updates }) },
+        },
+      },
+      `Update ${channel} header`
+    );
+  };
+
+  const padding = builderState.padding;
+  const isPerSidePadding = typeof padding === 'object';
+
+  const handlePaddingModeChange = (perSide: boolean) => {
+    if (perSide) {
+      const p = typeof padding === 'number' ? padding : undefined;
+      update({ padding: { top: p, right: p, bottom: p, left: p } }, 'Use per-side padding');
+    } else {
+      update({ padding: typeof padding === 'object' ? padding.top : padding }, 'Use uniform padding');
+    }
+  };
+
+  const handlePaddingSideChange = (side: (typeof PADDING_SIDES)[number], value: number | undefined) => {
+    const current: Exclude<Padding, number> = typeof padding === 'object' ? padding : {};
+    update({ padding: { ...current, [side]: value } }, `Update ${side} padding`);
+  };
+
+  // A loaded spec's config shows as its theme when it matches one, otherwise as a custom entry
+  const themes = getThemes(hostThemes);
+  const currentTheme = builderState.theme ?? DEFAULT_THEME;
+  const selectedTheme = findTheme(currentTheme.config, themes);
+  const palette: string[] = Array.isArray(currentTheme.config.range?.category) ? currentTheme.config.range.category : [];
+
+  const handleThemeChange = (id: string) => {
+    const theme = themes.find((t) => t.id === id);
+    if (theme) update({ theme }, `Use ${theme.name} theme`);
+  };
+
+  const axisChannels = (['x', 'y'] as AxisChannel[]).filter((ch) => builderState.encodings[ch]?.field);
+  const legendChannels = (['color', 'size'] as LegendChannel[]).filter((ch) => builderState.encodings[ch]?.field);
+  const headerChannels = (['row', 'column', 'facet'] as FacetChannel[]).filter((ch) => builderState.encodings[ch]?.field);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-3">Theme</h3>
+        <select
+          value={selectedTheme?.id ?? ''}
+          onChange={(e) => handleThemeChange(e.target.value)}
+          className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm bg-white"
+        >
+          {!selectedTheme && <option value="">{currentTheme.name} (from spec)</option>}
+          {themes.map((theme) => (
+            <option key={theme.id} value={theme.id}>
+              {theme.name}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Fonts, colors and axis styling. Saved in the spec's config, so exported charts keep it.
+        </p>
+        {palette.length > 0 && (
+          <div className="flex gap-1 mt-2" aria-label="Theme palette">
+            {palette.map((color, i) => (
+              <span key={i} className="w-4 h-4 rounded border border-gray-300" style={{ background: color }} title={color} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t pt-4">
+        <h3 className="text-sm font-semibold mb-3">Title</h3>
+        <div className="space-y-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Title</label>
+            <CommitInput
+              value={builderState.title}
+              onCommit={(title) => update({ title }, 'Update title')}
+              placeholder="Chart title"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Subtitle</label>
+            <CommitInput
+              value={builderState.subtitle}
+              onCommit={(subtitle) => update({ subtitle }, 'Update subtitle')}
+              placeholder={builderState.title ? 'Optional subtitle' : 'Set a title first'}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Description</label>
+            <CommitInput
+              value={builderState.description}
+              onCommit={(description) => update({ description }, 'Update description')}
+              placeholder="Accessible description"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="border-t pt-4">
+        <h3 className="text-sm font-semibold mb-3">Axes</h3>
+        {axisChannels.length === 0 && (
+          <p className="text-sm text-gray-500">Map a field to X or Y to style its axis</p>
+        )}
+        {axisChannels.map((channel) => {
+          const axis = builderState.encodings[channel]?.axis ?? {};
+          return (
+            <div key={channel} className="p-3 border border-gray-300 rounded mb-3">
+              <label className="text-sm font-semibold block mb-2">{channel.toUpperCase()} Axis</label>
+              <div className="space-y-2">
+                <div>
+                  <label className="text-xs text-gray-600 block mb-1">Title</label>
+                  <CommitInput
+                    value={axis.title}
+                    onCommit={(title) => handleAxisChange(channel, { title })}
+                    placeholder={builderState.encodings[channel]?.field}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">Format</label>
+                    <CommitInput
+                      value={axis.format}
+                      onCommit={(format) => handleAxisChange(channel, { format })}
+                      placeholder="e.g. ,.0f or %b %Y"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">Grid</label>
+                    <select
+                      value={axis.grid === undefined ? 'default' : axis.grid ? 'show' : 'hide'}
+                      onChange={(e) =>
+                        handleAxisChange(channel, {
+                          grid: e.target.value === 'default' ? undefined : e.target.value === 'show',
+                        })
+                      }
+                      className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="default">Default</option>
+                      <option value="show">Show</option>
+                      <option value="hide">Hide</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">Label angle</label>
+                    <CommitInput
+                      type="number"
+                      value={axis.labelAngle}
+                      onCommit={(v) => handleAxisChange(channel, { labelAngle: toNumber(v) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">Label size</label>
+                    <CommitInput
+                      type="number"
+                      value={axis.labelFontSize}
+                      onCommit={(v) => handleAxisChange(channel, { labelFontSize: toNumber(v) })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-gray-600 block mb-1">Title size</label>
+                    <CommitInput
+                      type="number"
+                      value={axis.titleFontSize}
+                      onCommit={(v) => handleAxisChange(channel, { titleFontSize: toNumber(v) })}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border-t pt-4">
+        <h3 className="text-sm font-semibold mb-3">Legends</h3>
+        {legendChannels.length === 0 && (
+          <p className="text-sm text-gray-500">Map a field to Color or Size to style its legend</p>
+        )}
+        {legendChannels.map((channel) => {
+          const legend = builderState.encodings[channel]?.legend ?? {};
+          return (
+            <div key={channel} className="p-3 border border-gray-300 rounded mb-3">
+              <label className="text-sm font-semibold block mb-2">
+                {channel === 'color' ? 'Color' : 'Size'} Legend
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-gray-600 block mb-1">Title</label>
+                  <CommitInput
+                    value={legend.title}
+                    onCommit={(title) => handleLegendChange(channel, { title })}
+                    placeholder={builderState.encodings[channel]?.field}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-600 block mb-1">Position</label>
+                  <select
+                    value={legend.orient ?? ''}
+                    onChange={(e) =>
+                      handleLegendChange(channel, {
+                        orient: e.target.value === '' ? undefined : (e.target.value as LegendConfig['orient']),
+                      })
+                    }
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="">Default</option>
+                    {LEGEND_ORIENTS.map((orient) => (
+                      <option key={orient} value={orient}>
+                        {orient === 'none' ? 'Hidden' : orient}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {headerChannels.length > 0 && (
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-3">Facet Headers</h3>
+          {headerChannels.map((channel) => {
+            const header = builderState.encodings[channel]?.header ?? {};
+            return (
+              <div key={channel} className="p-3 border border-gray-300 rounded mb-3">
+                <label className="text-sm font-semibold block mb-2">{FACET_LABELS[channel]} Headers</label>
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-xs text-gray-600 block mb-1">Title</label>
+                      <CommitInput
+                        value={header.title}
+                        onCommit={(title) => handleHeaderChange(channel, { title })}
+                        placeholder={builderState.encodings[channel]?.field}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600 block mb-1">Label position</label>
+                      <select
+                        value={header.labelOrient ?? ''}
+                        onChange={(e) =>
+                          handleHeaderChange(channel, {
+                            labelOrient: e.target.value === '' ? undefined : (e.target.value as HeaderConfig['labelOrient']),
+                          })
+                        }
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="">Default</option>
+                        {HEADER_ORIENTS.map((orient) => (
+                          <option key={orient} value={orient}>
+                            {orient}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="text-xs text-gray-600 block mb-1">Label angle</label>
+                      <CommitInput
+                        type="number"
+                        value={header.labelAngle}
+                        onCommit={(v) => handleHeaderChange(channel, { labelAngle: toNumber(v) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600 block mb-1">Label size</label>
+                      <CommitInput
+                        type="number"
+                        value={header.labelFontSize}
+                        onCommit={(v) => handleHeaderChange(channel, { labelFontSize: toNumber(v) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-600 block mb-1">Title size</label>
+                      <CommitInput
+                        type="number"
+                        value={header.titleFontSize}
+                        onCommit={(v) => handleHeaderChange(channel, { titleFontSize: toNumber(v) })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <h3 className="text-sm font-semibold mb-3">Layout</h3>
+        <div className="space-y-3">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Background</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={/^#[0-9a-f]{6}$/i.test(builderState.background ?? '') ? builderState.background : '#ffffff'}
+                onChange={(e) => update({ background: e.target.value }, 'Change background')}
+                className="w-10 h-8 border border-gray-300 rounded"
+              />
+              <div className="flex-1">
+                <CommitInput
+                  value={builderState.background}
+                  onCommit={(background) => update({ background }, 'Change background')}
+                  placeholder="Theme default"
+                />
+              </div>
+              {builderState.background && (
+                <button
+                  onClick={() => update({ background: undefined }, 'Clear background')}
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs text-gray-600">Padding (px)</label>
+              <label className="flex items-center gap-1.5 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isPerSidePadding}
+                  onChange={(e) => handlePaddingModeChange(e.target.checked)}
+                  className="w-3.5 h-3.5"
+                />
+                <span>Per side</span>
+              </label>
+            </div>
+            {typeof padding === 'object' ? (
+              <div className="grid grid-cols-4 gap-2">
+                {PADDING_SIDES.map((side) => (
+                  <div key={side}>
+                    <label className="text-xs text-gray-500 block mb-1 capitalize">{side}</label>
+                    <CommitInput
+                      type="number"
+                      value={padding[side]}
+                      onCommit={(v) => handlePaddingSideChange(side, toNumber(v))}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <CommitInput
+                type="number"
+                value={padding}
+                onCommit={(v) => update({ padding: toNumber(v) }, 'Update padding')}
+                placeholder="Default"
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { useWidgetStore } from '@/store/widgetStore';
+import { ChartThumbnail } from '@/components/ChartThumbnail';
+import { buildSpec, getDefaultBuilderState } from '@/utils/specBuilder';
+import { limitRows } from '@/utils/featureFlags';
+import { recommendCharts } from '@/utils/recommender';
+import { toChartState } from '@/utils/templates';
+import { getFieldType } from '@/utils/fieldInference';
+import type { ChartRecommendation } from '@/types';
+
+// Enough rows for the shape of each thumbnail without rendering the full data several times
+const THUMBNAIL_ROWS = 500;
+
+export function SuggestionsPanel() {
+  const data = useWidgetStore((state) => state.data);
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const features = useWidgetStore((state) => state.features);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+
+  const [compareMode, setCompareMode] = useState(false);
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const waitingForPicks = compareMode && !picked.some((name) => dataFields.some((f) => f.name === name));
+
+  // Each suggestion with its thumbnail spec, built once per data / pick change rather than on every render
+  const suggestions = useMemo(() => {
+    if (waitingForPicks) return [];
+    return recommendCharts(dataFields, { focus: compareMode ? picked : undefined, features }).map((suggestion) => ({
+      suggestion,
+      spec: buildSpec({ ...getDefaultBuilderState(), ...toChartState(suggestion.chart, dataFields) }, dataFields),
+    }));
+  }, [dataFields, features, compareMode, picked, waitingForPicks]);
+  const thumbnailData = useMemo(() => limitRows(data, THUMBNAIL_ROWS).rows, [data]);
+
+  const handleApply = (suggestion: ChartRecommendation) => {
+    captureSnapshot(`Apply suggested chart: ${suggestion.title}`);
+    setBuilderState(toChartState(suggestion.chart, dataFields));
+  };
+
+  const togglePick = (name: string) => {
+    setPicked(picked.includes(name) ? picked.filter((p) => p !== name) : [...picked, name]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-1">Suggestions</h3>
+        <p className="text-xs text-gray-500">
+          Charts that suit your fields' types and values. Click one to use it; title, size and styling are kept.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={compareMode}
+          onChange={(e) => setCompareMode(e.target.checked)}
+          className="w-4 h-4"
+        />
+        Pick fields to compare
+      </label>
+
+      {compareMode && (
+        <div className="flex flex-wrap gap-1">
+          {dataFields.map((field) => (
+            <button
+              key={field.name}
+              onClick={() => togglePick(field.name)}
+              aria-pressed={picked.includes(field.name)}
+              title={getFieldType(field)}
+              className={`px-2 py-1 rounded border text-xs ${
+                picked.includes(field.name)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+              }`}
+            >
+              {field.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {waitingForPicks ? (
+        <p className="text-xs text-gray-500">Pick one or more fields to see charts that compare them.</p>
+      ) : suggestions.length === 0 ? (
+        <p className="text-xs text-gray-500">No suggestions for these fields.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {suggestions.map(({ suggestion, spec }) => (
+            <button
+              key={suggestion.id}
+              onClick={() => handleApply(suggestion)}
+              title={suggestion.reason}
+              className="p-2 border border-gray-300 rounded bg-white text-left hover:border-blue-500 hover:bg-blue-50"
+            >
+              <ChartThumbnail spec={spec} data={thumbnailData} />
+              <span className="block mt-1 text-xs font-semibold truncate">{suggestion.title}</span>
+              <span className="block text-xs text-gray-500 truncate">{suggestion.reason}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
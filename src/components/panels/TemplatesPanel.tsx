@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useWidgetStore } from '@/store/widgetStore';
+import { FieldPicker } from '@/components/FieldPicker';
+import {
+  applyTemplate,
+  findDisallowedTemplateParts,
+  fitsSlot,
+  getTemplates,
+  matchTemplateSlots,
+  missingTemplateSlots,
+} from '@/utils/templates';
+import type { ChartTemplate, DataField } from '@/types';
+
+export function TemplatesPanel() {
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const hostTemplates = useWidgetStore((state) => state.templates);
+  const features = useWidgetStore((state) => state.features);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+  const setActiveTab = useWidgetStore((state) => state.setActiveTab);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Fields the user picked per template and slot; the rest are filled automatically
+  const [picks, setPicks] = useState<Record<string, Record<string, string>>>({});
+
+  const templates = getTemplates(hostTemplates);
+
+  const handleApply = (template: ChartTemplate, mapping: Record<string, string>) => {
+    captureSnapshot(`Apply ${template.name} template`);
+    setBuilderState(applyTemplate(template, mapping, dataFields, features));
+    setActiveTab('encodings');
+  };
+
+  const handlePick = (templateId: string, slot: string, field: string) => {
+    setPicks({ ...picks, [templateId]: { ...picks[templateId], [slot]: field } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-1">Templates</h3>
+        <p className="text-xs text-gray-500">
+          Start from a ready-made chart. Fields are matched to each template's roles automatically; applying one
+          replaces the current chart but keeps its title, size and styling.
+        </p>
+      </div>
+
+      {templates.map((template) => {
+        const mapping = matchTemplateSlots(template, dataFields, picks[template.id]);
+        const missing = missingTemplateSlots(template, mapping);
+        const disallowed = findDisallowedTemplateParts(template, mapping, dataFields, features);
+        const isSelected = selectedId === template.id;
+
+        return (
+          <div
+            key={template.id}
+            className={`border rounded ${isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-gray-50'} ${
+              missing.length || disallowed.length ? 'opacity-60' : ''
+            }`}
+          >
+            <button
+              onClick={() => setSelectedId(isSelected ? null : template.id)}
+              className="w-full p-3 text-left"
+              aria-expanded={isSelected}
+            >
+              <span className="block text-sm font-semibold">{template.name}</span>
+              {template.description && <span className="block text-xs text-gray-600">{template.description}</span>}
+              <span className="block mt-1 text-xs text-gray-500">
+                {disallowed.length
+                  ? `Uses ${disallowed.join(', ')}, which this widget doesn't allow`
+                  : missing.length
+                    ? `Needs ${missing.map((slot) => `${slot.label} (${slot.types.join(' or ')})`).join(', ')}`
+                    : template.slots
+                        .filter((slot) => mapping[slot.name])
+                        .map((slot) => `${slot.label}: ${mapping[slot.name]}`)
+                        .join(' · ')}
+              </span>
+            </button>
+
+            {isSelected && (
+              <div className="px-3 pb-3 space-y-2">
+                {template.slots.map((slot) => (
+                  <SlotPicker
+                    key={slot.name}
+                    label={slot.optional ? `${slot.label} (optional)` : slot.label}
+                    value={mapping[slot.name]}
+                    fields={dataFields.filter((f) => fitsSlot(f, slot))}
+                    onChange={(field) => handlePick(template.id, slot.name, field)}
+                  />
+                ))}
+                <button
+                  onClick={() => handleApply(template, mapping)}
+                  disabled={missing.length > 0 || disallowed.length > 0}
+                  className="w-full px-3 py-2 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  Apply template
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface SlotPickerProps {
+  label: string;
+  value?: string;
+  fields: DataField[];
+  onChange: (field: string) => void;
+}
+
+function SlotPicker({ label, value, fields, onChange }: SlotPickerProps) {
+  return (
+    <div>
+      <label className="text-xs text-gray-600 block mb-1">{label}</label>
+      {fields.length ? (
+        <FieldPicker value={value} fields={fields} onChange={onChange} placeholder="— None —" />
+      ) : (
+        <p className="text-xs text-gray-500">No field of a matching type</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,648 @@
+import { useEffect, useState } from 'react';
+import { useWidgetStore } from '@/store/widgetStore';
+import { detectCustomSpec } from '@/utils/specParser';
+import { fieldRef } from '@/utils/specBuilder';
+import { computeTransformPreviews, type TransformStepPreview } from '@/utils/transformPreview';
+import { isTransformAllowed } from '@/utils/featureFlags';
+import { getFieldType } from '@/utils/fieldInference';
+import type { AggregateOp, ChartTransform, DataField, SortOrder, TransformCustom } from '@/types';
+
+const TRANSFORM_KINDS: { value: ChartTransform['kind']; label: string; description: string }[] = [
+  { value: 'filter', label: 'Filter', description: 'Keep rows matching an expression' },
+  { value: 'topN', label: 'Top N', description: 'Keep the N highest or lowest rows' },
+  { value: 'calculate', label: 'Calculate', description: 'Derive a new field' },
+  { value: 'aggregate', label: 'Aggregate', description: 'Group and summarize rows' },
+  { value: 'custom', label: 'Custom', description: 'Any other Vega-Lite transform, as JSON' },
+];
+
+// Wait for edits to settle before recounting rows
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const AGGREGATE_OPS: AggregateOp[] = ['sum', 'mean', 'median', 'count', 'min', 'max', 'distinct', 'q1', 'q3'];
+
+/**
+ * Field names available as input to the transform at `index`
+ * (source fields plus anything derived by earlier steps)
+ */
+function getFieldsAtStep(dataFields: DataField[], transforms: ChartTransform[], index: number): string[] {
+  let names = dataFields.map((f) => f.name);
+
+  for (const t of transforms.slice(0, index)) {
+    if (t.kind === 'calculate' && t.as) {
+      names = [...names, t.as];
+    } else if (t.kind === 'aggregate') {
+      // Aggregation replaces the row shape with groupby + output fields
+      names = [...(t.groupby ?? []), ...t.as];
+    } else if (t.kind === 'custom' && (typeof t.transform.as === 'string' || Array.isArray(t.transform.as))) {
+      // Custom steps like fold or timeUnit name their outputs with `as`
+      names = [...names, ...[t.transform.as].flat().filter((name) => typeof name === 'string')];
+    }
+  }
+
+  return Array.from(new Set(names.filter(Boolean)));
+}
+
+function createTransform(kind: ChartTransform['kind'], dataFields: DataField[], fields: string[]): ChartTransform {
+  const quantitative = dataFields.find((f) => getFieldType(f) === 'quantitative' && fields.includes(f.name))?.name;
+  const categorical = dataFields.find(
+    (f) => (getFieldType(f) === 'nominal' || getFieldType(f) === 'ordinal') && fields.includes(f.name)
+  )?.name;
+
+  switch (kind) {
+    case 'filter':
+      return { kind: 'filter', expr: quantitative ? `${fieldRef(quantitative)} > 0` : '' };
+    case 'topN':
+      return { kind: 'topN', n: 10, byField: quantitative ?? fields[0] ?? '', order: 'descending' };
+    case 'calculate':
+      return { kind: 'calculate', calculate: '', as: 'calculated' };
+    case 'aggregate':
+      return {
+        kind: 'aggregate',
+        groupby: categorical ? [categorical] : [],
+        ops: ['sum'],
+        fields: [quantitative ?? ''],
+        as: [quantitative ? `sum_${quantitative}` : 'sum'],
+      };
+    case 'custom':
+      return { kind: 'custom', transform: {} };
+  }
+}
+
+function describeTransform(t: ChartTransform): string {
+  switch (t.kind) {
+    case 'filter':
+      return t.expr || '(empty expression)';
+    case 'topN':
+      return `Top ${t.n} by ${t.byField || '?'} (${t.order})`;
+    case 'calculate':
+      return `${t.as || '?'} = ${t.calculate || '?'}`;
+    case 'aggregate': {
+      const measures = t.ops.map((op, i) => `${op}(${t.fields[i] ?? ''}) as ${t.as[i]}`).join(', ');
+      return t.groupby?.length ? `${measures} by ${t.groupby.join(', ')}` : measures;
+    }
+    case 'custom':
+      return JSON.stringify(t.transform);
+  }
+}
+
+function validateTransform(t: ChartTransform): string | null {
+  switch (t.kind) {
+    case 'filter':
+      return t.expr.trim() ? null : 'Filter expression is required';
+    case 'topN':
+      if (!t.byField) return 'Choose a field to rank by';
+      return t.n > 0 ? null : 'N must be greater than 0';
+    case 'calculate':
+      if (!t.calculate.trim()) return 'Calculate expression is required';
+      return t.as.trim() ? null : 'Output field name is required';
+    case 'aggregate':
+      if (t.ops.length === 0) return 'Add at least one measure';
+      for (let i = 0; i < t.ops.length; i++) {
+        if (t.ops[i] !== 'count' && !t.fields[i]) return `Measure ${i + 1} needs a field`;
+        if (!t.as[i]?.trim()) return `Measure ${i + 1} needs an output name`;
+      }
+      return null;
+    case 'custom':
+      return Object.keys(t.transform).length > 0 ? null : 'Enter a Vega-Lite transform object';
+  }
+}
+
+interface TransformEditorProps {
+  transform: ChartTransform;
+  fields: string[];
+  onChange: (transform: ChartTransform) => void;
+}
+
+function TransformEditor({ transform, fields, onChange }: TransformEditorProps) {
+  const inputClass = 'w-full px-2 py-1.5 border border-gray-300 rounded text-sm';
+
+  if (transform.kind === 'filter') {
+    return (
+      <div className="space-y-2">
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Expression</label>
+          <textarea
+            value={transform.expr}
+            onChange={(e) => onChange({ ...transform, expr: e.target.value })}
+            placeholder="datum.Sales > 100"
+            className={`${inputClass} font-mono text-xs resize-none`}
+            rows={2}
+            spellCheck={false}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Insert field</label>
+          <select
+            value=""
+            onChange={(e) => {
+              if (!e.target.value) return;
+              const sep = transform.expr && !transform.expr.endsWith(' ') ? ' ' : '';
+              onChange({ ...transform, expr: `${transform.expr}${sep}${fieldRef(e.target.value)}` });
+            }}
+            className={inputClass}
+          >
+            <option value="">— Select field —</option>
+            {fields.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    );
+  }
+
+  if (transform.kind === 'topN') {
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">N</label>
+            <input
+              type="number"
+              min={1}
+              value={transform.n}
+              onChange={(e) => onChange({ ...transform, n: parseInt(e.target.value, 10) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-600 block mb-1">Order</label>
+            <select
+              value={transform.order}
+              onChange={(e) => onChange({ ...transform, order: e.target.value as SortOrder })}
+              className={inputClass}
+            >
+              <option value="descending">Highest</option>
+              <option value="ascending">Lowest</option>
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Rank by</label>
+          <select
+            value={transform.byField}
+            onChange={(e) => onChange({ ...transform, byField: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">— Select field —</option>
+            {fields.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+    );
+  }
+
+  if (transform.kind === 'calculate') {
+    return (
+      <div className="space-y-2">
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Expression</label>
+          <textarea
+            value={transform.calculate}
+            onChange={(e) => onChange({ ...transform, calculate: e.target.value })}
+            placeholder="datum.Profit / datum.Sales"
+            className={`${inputClass} font-mono text-xs resize-none`}
+            rows={2}
+            spellCheck={false}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-gray-600 block mb-1">Output field</label>
+          <input
+            type="text"
+            value={transform.as}
+            onChange={(e) => onChange({ ...transform, as: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (transform.kind === 'custom') {
+    return <CustomTransformEditor transform={transform} onChange={onChange} />;
+  }
+
+  // Aggregate
+  const groupby = transform.groupby ?? [];
+
+  const updateMeasure = (i: number, updates: { op?: AggregateOp; field?: string; as?: string }) => {
+    const ops = [...transform.ops];
+    const measureFields = [...transform.fields];
+    const as = [...transform.as];
+    if (updates.op !== undefined) ops[i] = updates.op;
+    if (updates.field !== undefined) measureFields[i] = updates.field;
+    if (updates.as !== undefined) as[i] = updates.as;
+    onChange({ ...transform, ops, fields: measureFields, as });
+  };
+
+  const removeMeasure = (i: number) => {
+    onChange({
+      ...transform,
+      ops: transform.ops.filter((_, j) => j !== i),
+      fields: transform.fields.filter((_, j) => j !== i),
+      as: transform.as.filter((_, j) => j !== i),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label className="text-xs text-gray-600 block mb-1">Group by</label>
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {fields.map((f) => (
+            <label key={f} className="flex items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={groupby.includes(f)}
+                onChange={(e) =>
+                  onChange({
+                    ...transform,
+                    groupby: e.target.checked ? [...groupby, f] : groupby.filter((g) => g !== f),
+                  })
+                }
+                className="w-3.5 h-3.5"
+              />
+              {f}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="text-xs text-gray-600 block mb-1">Measures</label>
+        <div className="space-y-1">
+          {transform.ops.map((op, i) => (
+            <div key={i} className="grid grid-cols-[5rem_1fr_1fr_auto] gap-1 items-center">
+              <select
+                value={op}
+                onChange={(e) => updateMeasure(i, { op: e.target.value as AggregateOp })}
+                className="px-1 py-1 border border-gray-300 rounded text-xs"
+              >
+                {AGGREGATE_OPS.map((o) => (
+                  <option key={o} value={o}>
+                    {o}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={transform.fields[i] ?? ''}
+                onChange={(e) => updateMeasure(i, { field: e.target.value })}
+                className="px-1 py-1 border border-gray-300 rounded text-xs"
+              >
+                <option value="">{op === 'count' ? '(rows)' : '— Field —'}</option>
+                {fields.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={transform.as[i] ?? ''}
+                onChange={(e) => updateMeasure(i, { as: e.target.value })}
+                placeholder="as"
+                className="px-1 py-1 border border-gray-300 rounded text-xs"
+              />
+              <button
+                onClick={() => removeMeasure(i)}
+                className="text-xs text-red-600 hover:text-red-700 px-1"
+                title="Remove measure"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() =>
+            onChange({
+              ...transform,
+              ops: [...transform.ops, 'count'],
+              fields: [...transform.fields, ''],
+              as: [...transform.as, 'count'],
+            })
+          }
+          className="mt-1 text-xs text-blue-600 hover:text-blue-700"
+        >
+          + Add measure
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * JSON editor for a custom transform; the draft only updates while the text is a valid object
+ */
+function CustomTransformEditor({
+  transform,
+  onChange,
+}: {
+  transform: TransformCustom;
+  onChange: (transform: ChartTransform) => void;
+}) {
+  const [text, setText] = useState(() => JSON.stringify(transform.transform, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('A transform must be a JSON object');
+      }
+      setParseError(null);
+      onChange({ ...transform, transform: parsed });
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div>
+      <label className="text-xs text-gray-600 block mb-1">Vega-Lite transform</label>
+      <textarea
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder='{ "fold": ["Sales", "Profit"] }'
+        className="w-full px-2 py-1.5 border border-gray-300 rounded font-mono text-xs resize-none"
+        rows={5}
+        spellCheck={false}
+      />
+      {parseError && <p className="mt-1 text-xs text-red-600">{parseError}</p>}
+    </div>
+  );
+}
+
+export function TransformsPanel() {
+  const builderState = useWidgetStore((state) => state.builderState);
+  const vegaSpec = useWidgetStore((state) => state.vegaSpec);
+  const data = useWidgetStore((state) => state.data);
+  const dataFields = useWidgetStore((state) => state.dataFields);
+  const features = useWidgetStore((state) => state.features);
+  const setBuilderState = useWidgetStore((state) => state.setBuilderState);
+  const captureSnapshot = useWidgetStore((state) => state.captureSnapshot);
+
+  const transforms = builderState.transforms;
+
+  // Index being edited; transforms.length means a new, not yet added transform
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ChartTransform | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<TransformStepPreview[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Recount surviving rows (in the stats worker) once the data or pipeline stops changing;
+  // counts from the previous pipeline are hidden meanwhile
+  useEffect(() => {
+    let cancel = () => {};
+    setIsPreviewing(true);
+    const timer = setTimeout(() => {
+      cancel = computeTransformPreviews(data, transforms, dataFields, (result) => {
+        setPreviews(result);
+        setIsPreviewing(false);
+      });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      cancel();
+    };
+  }, [data, transforms, dataFields]);
+
+  // Detect if current spec is a complex/custom spec
+  const isCustomSpec = detectCustomSpec(vegaSpec, builderState);
+
+  if (isCustomSpec) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 bg-yellow-50 border border-yellow-300 rounded">
+          <div className="flex items-start gap-2">
+            <span className="text-yellow-600 font-bold text-lg">⚠️</span>
+            <div className="flex-1">
+              <p className="text-sm font-semibold text-yellow-800 mb-2">
+                Custom Spec - Builder Disabled
+              </p>
+              <p className="text-xs text-yellow-700 mb-3">
+                You're viewing a complex spec (concatenated views, external data, or structure the builder can't express) that can't be edited through the builder panels.
+              </p>
+              <p className="text-xs font-semibold text-yellow-800 mb-1">Options:</p>
+              <ul className="text-xs text-yellow-700 space-y-1 list-disc list-inside">
+                <li>Use the <strong>AI Assistant</strong> tab (GenAI mode) to modify this spec</li>
+                <li>Use the <strong>Spec</strong> tab to manually edit the JSON</li>
+                <li>Reset to a simple chart to use the builder</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const kindLabel = (kind: ChartTransform['kind']) =>
+    TRANSFORM_KINDS.find((k) => k.value === kind)?.label ?? kind;
+
+  const updateTransforms = (next: ChartTransform[], description: string) => {
+    captureSnapshot(description);
+    setBuilderState({ transforms: next });
+  };
+
+  const handleAdd = (kind: ChartTransform['kind']) => {
+    const fields = getFieldsAtStep(dataFields, transforms, transforms.length);
+    setEditingIndex(transforms.length);
+    setDraft(createTransform(kind, dataFields, fields));
+    setDraftError(null);
+  };
+
+  const handleEdit = (index: number) => {
+    setEditingIndex(index);
+    setDraft(JSON.parse(JSON.stringify(transforms[index])));
+    setDraftError(null);
+  };
+
+  const handleCancel = () => {
+    setEditingIndex(null);
+    setDraft(null);
+    setDraftError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft || editingIndex === null) return;
+
+    const validationError = validateTransform(draft);
+    if (validationError) {
+      setDraftError(validationError);
+      return;
+    }
+
+    if (editingIndex >= transforms.length) {
+      updateTransforms([...transforms, draft], `Add ${kindLabel(draft.kind)} transform`);
+    } else {
+      updateTransforms(
+        transforms.map((t, i) => (i === editingIndex ? draft : t)),
+        `Edit ${kindLabel(draft.kind)} transform`
+      );
+    }
+    handleCancel();
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= transforms.length) return;
+    const next = [...transforms];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateTransforms(next, `Move ${kindLabel(transforms[index].kind)} transform`);
+    handleCancel();
+  };
+
+  const handleDelete = (index: number) => {
+    updateTransforms(
+      transforms.filter((_, i) => i !== index),
+      `Remove ${kindLabel(transforms[index].kind)} transform`
+    );
+    handleCancel();
+  };
+
+  const allowedKinds = TRANSFORM_KINDS.filter((kind) => isTransformAllowed(kind.value, features));
+
+  const renderEditor = () =>
+    draft &&
+    editingIndex !== null && (
+      <div className="p-3 border border-blue-400 bg-blue-50 rounded">
+        <div className="text-sm font-semibold mb-2">
+          {editingIndex >= transforms.length ? 'New' : 'Edit'} {kindLabel(draft.kind)}
+        </div>
+        <TransformEditor
+          transform={draft}
+          fields={getFieldsAtStep(dataFields, transforms, editingIndex)}
+          onChange={setDraft}
+        />
+        {draftError && (
+          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+            {draftError}
+          </div>
+        )}
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 transition-colors"
+          >
+            {editingIndex >= transforms.length ? 'Add' : 'Save'}
+          </button>
+          <button
+            onClick={handleCancel}
+            className="px-3 py-1.5 bg-gray-400 text-white rounded text-sm font-medium hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Transforms</h3>
+        <p className="text-xs text-gray-600 mb-3">
+          Transforms run in order before the chart is drawn. Row counts show how many rows survive each step.
+        </p>
+
+        <div className="text-xs text-gray-600 mb-2">
+          Source data: <strong>{data.length}</strong> rows
+        </div>
+
+        {transforms.length === 0 && editingIndex === null && (
+          <p className="text-sm text-gray-500">No transforms yet</p>
+        )}
+
+        <div className="space-y-2">
+          {transforms.map((t, i) =>
+            editingIndex === i ? (
+              <div key={i}>{renderEditor()}</div>
+            ) : (
+              <div key={i} className="p-3 border border-gray-300 rounded">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-semibold">
+                    {i + 1}. {kindLabel(t.kind)}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleMove(i, -1)}
+                      disabled={i === 0}
+                      className="px-1 text-xs text-gray-600 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => handleMove(i, 1)}
+                      disabled={i === transforms.length - 1}
+                      className="px-1 text-xs text-gray-600 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handleEdit(i)}
+                      className="px-1 text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(i)}
+                      className="px-1 text-xs text-red-600 hover:text-red-700"
+                      title="Remove transform"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="text-xs font-mono text-gray-700 break-all">{describeTransform(t)}</div>
+                <div className="mt-1 text-xs">
+                  {isPreviewing || !previews[i] ? (
+                    <span className="text-gray-400">Counting rows...</span>
+                  ) : previews[i]?.error ? (
+                    <span className="text-red-600" title={previews[i].error}>
+                      ❌ {previews[i].error}
+                    </span>
+                  ) : previews[i]?.count != null ? (
+                    <span className="text-gray-600">→ {previews[i].count} rows</span>
+                  ) : (
+                    <span className="text-gray-400">→ skipped (earlier step failed)</span>
+                  )}
+                </div>
+              </div>
+            )
+          )}
+
+          {editingIndex !== null && editingIndex >= transforms.length && renderEditor()}
+        </div>
+      </div>
+
+      {allowedKinds.length > 0 && (
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold mb-2">Add Transform</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {allowedKinds.map((kind) => (
+              <button
+                key={kind.value}
+                onClick={() => handleAdd(kind.value)}
+                className="p-3 text-left border border-gray-300 rounded hover:border-gray-400 transition-colors"
+                title={kind.description}
+              >
+                <div className="font-medium text-sm">{kind.label}</div>
+                <div className="text-xs text-gray-500">{kind.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,58 @@
-import { create } from 'zustand';
+import { createContext, useContext } from 'react';
+import { createStore, useStore, type StoreApi } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import type { VisualizationSpec } from 'vega-embed';
 import type {
   WidgetState,
   BuilderState,
   DataField,
+  FieldType,
   TabType,
   ValidationError,
   ChartEditPlan,
   StateSnapshot,
+  FeatureFlags,
+  WidgetCallbacks,
+  ChartTemplate,
+  ChartTheme,
 } from '@/types';
-import { inferFields } from '@/utils/fieldInference';
+import { getFieldType, inferFields } from '@/utils/fieldInference';
 import { buildSpec, getDefaultBuilderState } from '@/utils/specBuilder';
+import { parseSpecToBuilderState } from '@/utils/specParser';
+import { describeValidationErrors, validateSpec } from '@/utils/specValidator';
+import { applyPlan } from '@/utils/nlPlanner';
+import { limitRows, resolveFeatures } from '@/utils/featureFlags';
+import { recommendCharts } from '@/utils/recommender';
+import { toChartState } from '@/utils/templates';
 
-interface WidgetStore extends WidgetState {
+export interface SetDataOptions {
+  typeOverrides?: Record<string, FieldType>; // Types confirmed by the user, e.g. in the import wizard
+  sourceRowCount?: number; // Row count of the source when the caller has already sampled it
+}
+
+export interface WidgetStore extends WidgetState {
   // Actions
-  setData: (data: any[]) => void;
+  setData: (data: any[], options?: SetDataOptions) => void;
   setDataOnly: (data: any[]) => void; // Update data without regenerating spec
+  setFieldType: (name: string, type: FieldType | null) => void; // null clears the override
+  applyFieldStats: (field: DataField) => void; // Full-dataset type and stats from the stats worker
+  setStatsProgress: (progress: number | null) => void;
   setBuilderState: (state: Partial<BuilderState>) => void;
   setSpec: (spec: VisualizationSpec, builderState?: Partial<BuilderState>) => void;
+  loadSpec: (spec: VisualizationSpec) => void; // Apply a full spec, extracting inline data and parsing builder state
   setActiveTab: (tab: TabType) => void;
+  setFeatures: (features: FeatureFlags) => void;
+  setCallbacks: (callbacks: WidgetCallbacks) => void;
+  setTemplates: (templates: ChartTemplate[]) => void;
+  setThemes: (themes: ChartTheme[]) => void;
   setAICommand: (command: string) => void;
   setLastPlan: (plan: ChartEditPlan | null) => void;
+  // Apply an edit plan unless the chart it produces is invalid; a rejection is reported through onError
+  // and returned. Accepted plans are recorded in history and passed to onAICommand.
+  commitPlan: (plan: ChartEditPlan, command?: string) => Promise<Error | null>;
   regenerateSpec: () => void;
   addValidationError: (error: ValidationError) => void;
+  setValidationErrors: (errors: ValidationError[]) => void;
   clearValidationErrors: () => void;
   undo: () => void;
   redo: () => void;
@@ -39,7 +68,68 @@ const DEFAULT_DATA = [
   { Category: 'C', Date: '2024-02-01', Sales: 70, Profit: 15, Region: 'North' },
 ];
 
-export const useWidgetStore = create<WidgetStore>()(
+/**
+ * Point encodings that followed a field's old type at its new type (explicitly chosen types are kept),
+ * across every channel of the main chart and its layers
+ */
+function retargetEncodings(builderState: BuilderState, name: string, previousType: FieldType, nextType: FieldType) {
+  const channelSets = [builderState.encodings, ...(builderState.layers ?? []).map((layer) => layer.encodings)];
+  const encodings = channelSets.flatMap((channels) =>
+    Object.values(channels).flatMap((config) => (Array.isArray(config) ? config : [config]))
+  );
+  encodings.forEach((encoding) => {
+    if (typeof encoding === 'object' && encoding?.field === name && encoding.type === previousType) {
+      encoding.type = nextType;
+    }
+  });
+}
+
+/**
+ * Whether the chart plots any of these fields; if not, it was made for other data (or is still empty)
+ */
+function encodesAnyField(builderState: BuilderState, fields: DataField[]): boolean {
+  const names = new Set(fields.map((f) => f.name));
+  const encodings = [builderState.encodings, ...(builderState.layers ?? []).map((layer) => layer.encodings)];
+  return encodings.some((channels) =>
+    Object.values(channels).some((config) => !Array.isArray(config) && names.has((config as any)?.field))
+  );
+}
+
+/**
+ * Whether the chart is still the one a new widget starts with
+ */
+function isDefaultBuilderState(builderState: BuilderState): boolean {
+  return JSON.stringify(builderState) === JSON.stringify(getDefaultBuilderState());
+}
+
+/**
+ * Current overrides by field name, so they survive new data with the same columns
+ */
+function collectTypeOverrides(fields: DataField[]): Record<string, FieldType> {
+  const overrides: Record<string, FieldType> = {};
+  fields.forEach((f) => {
+    if (f.overrideType) overrides[f.name] = f.overrideType;
+  });
+  return overrides;
+}
+
+/**
+ * Record user-chosen types (e.g. from the import wizard) where they differ from inference
+ */
+function applyTypeOverrides(fields: DataField[], overrides?: Record<string, FieldType>): DataField[] {
+  if (!overrides) return fields;
+  return fields.map((field) => {
+    const override = overrides[field.name];
+    return override && override !== field.inferredType ? { ...field, overrideType: override } : field;
+  });
+}
+
+export type WidgetStoreApi = StoreApi<WidgetStore>;
+
+/**
+ * Create an independent store for one widget instance
+ */
+export const createWidgetStore = () => createStore<WidgetStore>()(
   immer((set, get) => {
     const initialData = DEFAULT_DATA;
     const initialFields = inferFields(initialData);
@@ -50,6 +140,12 @@ export const useWidgetStore = create<WidgetStore>()(
       // Initial state
       data: initialData,
       dataFields: initialFields,
+      dataTruncatedFrom: null,
+      statsProgress: null,
+      features: resolveFeatures(),
+      callbacks: {},
+      templates: [],
+      themes: [],
       builderState: initialBuilderState,
       vegaSpec: initialSpec,
       activeTab: 'mark', // Default to mark tab (data tab is hidden)
@@ -60,21 +156,88 @@ export const useWidgetStore = create<WidgetStore>()(
       lastPlan: null,
 
       // Actions
-      setData: (data: any[]) => {
+      setData: (data: any[], options?: SetDataOptions) => {
         set((state) => {
-          state.data = data;
-          state.dataFields = inferFields(data);
+          const { rows, truncatedFrom } = limitRows(data, state.features.maxDataRows);
+          const totalRows = Math.max(truncatedFrom ?? data.length, options?.sourceRowCount ?? 0);
+          state.data = rows;
+          state.dataTruncatedFrom = totalRows > rows.length ? totalRows : null;
+          state.dataFields = applyTypeOverrides(inferFields(rows), {
+            ...collectTypeOverrides(state.dataFields),
+            ...options?.typeOverrides,
+          });
+          // An untouched default chart starts from the best suggestion for the data; charts the user has
+          // built are kept even when they don't fit, and the Suggestions tab offers alternatives
+          if (isDefaultBuilderState(state.builderState) && !encodesAnyField(state.builderState, state.dataFields)) {
+            const [top] = recommendCharts(state.dataFields, { limit: 1, features: state.features });
+            if (top) {
+              state.builderState = { ...state.builderState, ...toChartState(top.chart, state.dataFields) };
+            }
+          }
           // Regenerate spec with new data
           state.vegaSpec = buildSpec(state.builderState, state.dataFields);
         });
+        get().callbacks.onDataChange?.(get().data);
       },
 
       setDataOnly: (data: any[]) => {
         set((state) => {
-          state.data = data;
-          state.dataFields = inferFields(data);
+          const { rows, truncatedFrom } = limitRows(data, state.features.maxDataRows);
+          state.data = rows;
+          state.dataTruncatedFrom = truncatedFrom;
+          state.dataFields = applyTypeOverrides(inferFields(rows), collectTypeOverrides(state.dataFields));
           // Don't regenerate spec - keep the existing custom spec
         });
+        get().callbacks.onDataChange?.(get().data);
+      },
+
+      setFieldType: (name: string, type: FieldType | null) => {
+        set((state) => {
+          const field = state.dataFields.find((f) => f.name === name);
+          if (!field) return;
+
+          const previousType = getFieldType(field);
+          field.overrideType = type && type !== field.inferredType ? type : undefined;
+
+          retargetEncodings(state.builderState, name, previousType, getFieldType(field));
+          state.vegaSpec = buildSpec(state.builderState, state.dataFields);
+        });
+      },
+
+      applyFieldStats: (computed: DataField) => {
+        set((state) => {
+          // Ignore results for columns that no longer exist (data changed meanwhile)
+          const field = state.dataFields.find((f) => f.name === computed.name);
+          if (!field) return;
+
+          const previousType = getFieldType(field);
+          const previousFormat = field.format;
+          // Only rebuild specs the builder produced; custom specs from the Spec tab are left alone
+          const specIsBuilt =
+            JSON.stringify(state.vegaSpec) === JSON.stringify(buildSpec(state.builderState, state.dataFields));
+
+          field.inferredType = computed.inferredType;
+          field.format = computed.format;
+          field.stats = computed.stats;
+          if (field.overrideType === field.inferredType) {
+            field.overrideType = undefined;
+          }
+
+          // The full data may disagree with the sample's inferred type
+          if (!specIsBuilt) return;
+          if (getFieldType(field) !== previousType) {
+            retargetEncodings(state.builderState, field.name, previousType, getFieldType(field));
+          }
+          if (getFieldType(field) !== previousType || field.format !== previousFormat) {
+            state.vegaSpec = buildSpec(state.builderState, state.dataFields);
+          }
+        });
+      },
+
+      setStatsProgress: (progress: number | null) => {
+        set((state) => {
+          state.statsProgress = progress;
+        });
       },
 
       setBuilderState: (updates: Partial<BuilderState>) => {
@@ -94,12 +257,57 @@ export const useWidgetStore = create<WidgetStore>()(
         });
       },
 
+      loadSpec: (spec: VisualizationSpec) => {
+        // Work on a copy so Immer's auto-freeze doesn't freeze the caller's object
+        const parsed = JSON.parse(JSON.stringify(spec));
+
+        if (parsed.data && Array.isArray(parsed.data.values)) {
+          // Inline data moves to the data store; the spec references it by name
+          const extractedData = parsed.data.values;
+          const specWithoutData = { ...parsed, data: { name: 'table' } };
+          get().setSpec(specWithoutData, parseSpecToBuilderState(specWithoutData));
+          // Update data WITHOUT regenerating the spec (preserves the custom spec)
+          get().setDataOnly(extractedData);
+        } else if (parsed.data && parsed.data.url) {
+          // External data - keep the spec as-is (don't parse complex specs to builder state)
+          get().setSpec(parsed, {});
+        } else {
+          // No data or a named dataset
+          get().setSpec(parsed, parseSpecToBuilderState(parsed));
+        }
+      },
+
       setActiveTab: (tab: TabType) => {
         set((state) => {
           state.activeTab = tab;
         });
       },
 
+      setFeatures: (features: FeatureFlags) => {
+        set((state) => {
+          state.features = resolveFeatures(features);
+        });
+      },
+
+      setCallbacks: (callbacks: WidgetCallbacks) => {
+        set((state) => {
+          // Copy so Immer's auto-freeze doesn't freeze the host's object
+          state.callbacks = { ...callbacks };
+        });
+      },
+
+      setTemplates: (templates: ChartTemplate[]) => {
+        set((state) => {
+          state.templates = [...templates];
+        });
+      },
+
+      setThemes: (themes: ChartTheme[]) => {
+        set((state) => {
+          state.themes = [...themes];
+        });
+      },
+
       setAICommand: (command: string) => {
         set((state) => {
           state.aiCommand = command;
@@ -112,6 +320,32 @@ export const useWidgetStore = create<WidgetStore>()(
         });
       },
 
+      commitPlan: async (plan: ChartEditPlan, command = plan.intentText) => {
+        const { builderState, dataFields, features } = get();
+        let nextState: BuilderState;
+        try {
+          nextState = applyPlan(builderState, plan, dataFields, features);
+        } catch (err) {
+          // e.g. a mark or transform the host has disallowed
+          const error = err instanceof Error ? err : new Error(String(err));
+          get().callbacks.onError?.(error);
+          return error;
+        }
+
+        const validation = await validateSpec(buildSpec(nextState, dataFields), dataFields);
+        if (!validation.valid) {
+          const error = new Error(`AI edit rejected (invalid spec): ${describeValidationErrors(validation.errors)}`);
+          get().callbacks.onError?.(error);
+          return error;
+        }
+
+        get().captureSnapshot(`AI: ${command}`);
+        get().setLastPlan(plan);
+        get().setBuilderState(nextState);
+        get().callbacks.onAICommand?.(command, plan);
+        return null;
+      },
+
       regenerateSpec: () => {
         set((state) => {
           state.vegaSpec = buildSpec(state.builderState, state.dataFields);
@@ -124,6 +358,12 @@ export const useWidgetStore = create<WidgetStore>()(
         });
       },
 
+      setValidationErrors: (errors: ValidationError[]) => {
+        set((state) => {
+          state.validationErrors = errors;
+        });
+      },
+
       clearValidationErrors: () => {
         set((state) => {
           state.validationErrors = [];
@@ -178,9 +418,9 @@ export const useWidgetStore = create<WidgetStore>()(
 
       reset: () => {
         set((state) => {
-          const fields = inferFields(state.data);
+          // The fields keep their type overrides and formats; only the chart is reset
           const builderState = getDefaultBuilderState();
-          const spec = buildSpec(builderState, fields);
+          const spec = buildSpec(builderState, state.dataFields);
 
           state.builderState = builderState;
           state.vegaSpec = spec;
@@ -194,3 +434,27 @@ export const useWidgetStore = create<WidgetStore>()(
     };
   })
 );
+
+/**
+ * Store for the enclosing widget; each VegaConfigWidget provides its own
+ */
+export const WidgetStoreContext = createContext<WidgetStoreApi | null>(null);
+
+/**
+ * The enclosing widget's store itself, for reading current state outside of render
+ */
+export function useWidgetStoreApi(): WidgetStoreApi {
+  const store = useContext(WidgetStoreContext);
+  if (!store) {
+    throw new Error('useWidgetStoreApi must be used inside a VegaConfigWidget');
+  }
+  return store;
+}
+
+export function useWidgetStore<T>(selector: (state: WidgetStore) => T): T {
+  const store = useContext(WidgetStoreContext);
+  if (!store) {
+    throw new Error('useWidgetStore must be used inside a VegaConfigWidget');
+  }
+  return useStore(store, selector);
+}
@@ -6,20 +6,42 @@ import type { VisualizationSpec } from 'vega-embed';
 
 export type FieldType = 'quantitative' | 'nominal' | 'ordinal' | 'temporal';
 
+// Text formats recognised during inference; the spec converts them with a calculate step
+export type FieldFormat =
+  | 'number' // Numeric strings, optionally with thousands separators ("1,200")
+  | 'percent' // "12%", "-3.5 %"
+  | 'currency' // "$3.50", "1,200 €"
+  | 'epoch-ms' // Integer timestamps in milliseconds
+  | 'quarter' // "Q1 2024", "2024-Q1"
+  | 'month-year'; // "Jan 2024", "March 2024"
+
 export interface DataField {
   name: string;
   inferredType: FieldType;
   overrideType?: FieldType;
-  format?: string;
+  format?: FieldFormat; // Set when values need converting before Vega can use them
   stats?: FieldStats;
 }
 
 export interface FieldStats {
-  min?: number;
+  count?: number; // Rows the stats were computed over
+  min?: number; // Temporal fields use epoch milliseconds
   max?: number;
-  unique?: number;
+  mean?: number;
+  q1?: number;
+  median?: number;
+  q3?: number;
+  unique?: number; // Cardinality
   nulls?: number;
+  histogram?: HistogramBin[]; // Quantitative and temporal fields
   topValues?: Array<{ value: any; count: number }>;
+  complete?: boolean; // Computed over the full dataset rather than a sample
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
 }
 
 export interface DataSource {
@@ -45,6 +67,32 @@ export interface EncodingConfig {
   bin?: boolean | { maxbins?: number };
   axis?: AxisConfig;
   legend?: LegendConfig;
+  header?: HeaderConfig; // Facet channels (row/column/facet)
+  columns?: number; // Wrapped facet channel only: panels per row
+  conditions?: EncodingCondition[]; // Color/opacity/size rules, checked in order before the field or value
+  value?: string | number; // Constant for marks no rule matches, when there is no field
+}
+
+/**
+ * Conditional encoding rule: marks passing the test expression (or inside the selection) get `value`
+ */
+export interface EncodingCondition {
+  test?: string; // Vega expression, e.g. "datum.Profit < 0"
+  param?: string; // Name of a selection parameter
+  value: string | number;
+}
+
+export type ConditionChannel = 'color' | 'opacity' | 'size';
+
+export type PaletteKind = 'categorical' | 'sequential' | 'diverging';
+
+/**
+ * Named palette saved from the palette editor
+ */
+export interface SavedPalette {
+  name: string;
+  kind: PaletteKind;
+  colors: string[];
 }
 
 export interface ScaleConfig {
@@ -64,6 +112,14 @@ export interface AxisConfig {
   titleFontSize?: number;
 }
 
+export interface HeaderConfig {
+  title?: string;
+  labelAngle?: number;
+  labelOrient?: 'top' | 'bottom' | 'left' | 'right';
+  labelFontSize?: number;
+  titleFontSize?: number;
+}
+
 export interface LegendConfig {
   title?: string;
   orient?: 'left' | 'right' | 'top' | 'bottom' | 'none';
@@ -75,9 +131,31 @@ export interface LegendConfig {
 // Mark Configuration
 // ============================================================================
 
-export type MarkType = 'bar' | 'line' | 'area' | 'point' | 'circle' | 'square' | 'rect' | 'rule' | 'text' | 'tick';
+export type MarkType =
+  | 'bar'
+  | 'line'
+  | 'area'
+  | 'point'
+  | 'circle'
+  | 'square'
+  | 'rect'
+  | 'rule'
+  | 'text'
+  | 'tick'
+  | 'arc'
+  | 'trail'
+  | 'image'
+  | 'geoshape'
+  // Composite marks (expanded by Vega-Lite into several primitive marks)
+  | 'boxplot'
+  | 'errorbar'
+  | 'errorband';
 export type StackMode = 'zero' | 'normalize' | null;
 
+// Boxplot whiskers: 'min-max' or a multiple of the IQR; error bars/bands: the statistic to show
+export type MarkExtent = 'min-max' | 'ci' | 'stderr' | 'stdev' | 'iqr' | number;
+export type ProjectionType = 'equalEarth' | 'mercator' | 'albersUsa' | 'naturalEarth1' | 'equirectangular' | 'orthographic';
+
 export interface MarkConfig {
   type: MarkType;
   point?: boolean; // For line/area marks
@@ -86,6 +164,13 @@ export interface MarkConfig {
   size?: number;
   strokeWidth?: number;
   interpolate?: 'linear' | 'step' | 'step-before' | 'step-after' | 'basis' | 'cardinal' | 'monotone';
+  innerRadius?: number; // Arc: a value above 0 makes a donut
+  padAngle?: number; // Arc: gap between slices (radians)
+  cornerRadius?: number; // Arc, bar and rect marks
+  extent?: MarkExtent; // Boxplot, errorbar and errorband marks
+  width?: number; // Image marks
+  height?: number;
+  projection?: ProjectionType; // Geoshape marks
 }
 
 // ============================================================================
@@ -118,7 +203,90 @@ export interface TransformAggregate {
   as: string[];
 }
 
-export type ChartTransform = TransformFilter | TransformTopN | TransformCalculate | TransformAggregate;
+// Any other Vega-Lite transform (fold, window, lookup...), kept verbatim from a loaded spec
+export interface TransformCustom {
+  kind: 'custom';
+  transform: Record<string, any>;
+}
+
+export type ChartTransform = TransformFilter | TransformTopN | TransformCalculate | TransformAggregate | TransformCustom;
+
+// ============================================================================
+// Layers and Facets
+// ============================================================================
+
+// An extra mark drawn over the main one; x (and tooltips) come from the main encodings
+export interface ChartLayer {
+  mark: MarkConfig;
+  encodings: {
+    y?: EncodingConfig;
+    y2?: EncodingConfig;
+    color?: EncodingConfig;
+    size?: EncodingConfig;
+    opacity?: EncodingConfig;
+    text?: EncodingConfig;
+  };
+  omitShared?: SharedLayerChannel[]; // Main channels the layer doesn't repeat (e.g. a loaded spec's horizontal rule has no x)
+}
+
+export type SharedLayerChannel = 'x' | 'tooltip';
+
+export type LayerChannel = keyof ChartLayer['encodings'];
+
+export type ResolveMode = 'shared' | 'independent';
+
+export type FacetChannel = 'row' | 'column' | 'facet';
+
+// ============================================================================
+// Interactive Parameters
+// ============================================================================
+
+// brush: drag out an interval; click: pick marks; legend: click legend entries; zoom: pan/zoom the scales;
+// input: a slider, dropdown or radio buttons next to the chart
+export type ParamType = 'brush' | 'click' | 'legend' | 'zoom' | 'input';
+
+export type InputControl = 'range' | 'select' | 'radio';
+
+export type AnnotationKind = 'line' | 'band' | 'text';
+
+export type AnnotationAggregate = 'mean' | 'median' | 'min' | 'max';
+
+/**
+ * Reference line, shaded band or text callout, drawn as its own layer. Positions are data values
+ * (numbers, categories or date strings) on the chart's own scales.
+ */
+export interface ChartAnnotation {
+  kind: AnnotationKind;
+  axis?: 'x' | 'y'; // Lines and bands: 'y' (default) spans the chart horizontally at y values
+  value?: number | string; // Line position...
+  aggregate?: AnnotationAggregate; // ...or a statistic of the axis field (of the plotted values when aggregated)
+  start?: number | string; // Band range
+  end?: number | string;
+  x?: number | string; // Text position
+  y?: number | string;
+  text?: string; // Text content, or the label of a line/band
+  color?: string;
+  dashed?: boolean; // Lines
+}
+
+export interface ChartParam {
+  name: string; // Signal name; input values can also be used in filter expressions
+  type: ParamType;
+  encodings?: ('x' | 'y')[]; // brush / zoom: axes it works along (both when omitted)
+  field?: string; // click / legend: field whose values are selected; input: field compared with the value
+  highlight?: boolean; // brush / click / legend: fade marks outside the selection
+  // Input controls
+  input?: InputControl;
+  label?: string;
+  value?: string | number; // Initial value (dropdowns and radios start at "All")
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: (string | number)[];
+  compare?: '==' | '>=' | '<='; // Sliders: how the field is compared with the value
+  effect?: 'filter' | 'color'; // Hide rows that don't match, or colour the ones that do
+  color?: string; // Colour for matching marks (effect 'color')
+}
 
 // ============================================================================
 // Builder State (Core State for UI)
@@ -131,15 +299,50 @@ export interface BuilderState {
     y?: EncodingConfig;
     color?: EncodingConfig;
     size?: EncodingConfig;
+    x2?: EncodingConfig; // Range end (range bars, Gantt charts)
+    y2?: EncodingConfig;
+    theta?: EncodingConfig; // Angle for arc marks (pie/donut)
+    radius?: EncodingConfig;
+    shape?: EncodingConfig;
+    opacity?: EncodingConfig;
+    strokeDash?: EncodingConfig;
+    text?: EncodingConfig; // Text marks and labels
+    detail?: EncodingConfig; // Groups marks without a visual difference (e.g. one line per series)
+    order?: EncodingConfig; // Stacking / line connection order
+    href?: EncodingConfig; // Makes marks links
+    url?: EncodingConfig; // Image source for image marks
     tooltip?: EncodingConfig[] | 'auto' | 'none';
+    // Small multiples: a grid of row/column panels, or `facet` wrapped into rows
+    row?: EncodingConfig;
+    column?: EncodingConfig;
+    facet?: EncodingConfig;
   };
   transforms: ChartTransform[];
+  layers?: ChartLayer[]; // Drawn in order over the main mark
+  params?: ChartParam[]; // Selections and input controls
+  annotations?: ChartAnnotation[]; // Reference lines, bands and labels drawn over every other layer
+  resolveX?: ResolveMode; // Independent gives each facet panel its own x scale
+  resolveY?: ResolveMode; // Independent gives each layer / facet panel its own y scale
   width?: number | 'container';
   height?: number | 'container';
   title?: string;
+  subtitle?: string;
   description?: string;
   background?: string;
   padding?: number | { top?: number; bottom?: number; left?: number; right?: number };
+  theme?: ChartTheme; // Emitted as the spec's config; the light theme when unset
+  overrides?: SpecOverrides; // Parts of a loaded spec the builder can't edit, merged back by buildSpec
+}
+
+/**
+ * Spec fragments kept verbatim from a loaded spec, shaped like a single-view spec:
+ * `mark` and `encoding` belong to the main chart and `layer[i]` to the i-th layer's own keys
+ */
+export interface SpecOverrides {
+  mark?: Record<string, any>;
+  encoding?: Record<string, any>;
+  layer?: Record<string, any>[];
+  [key: string]: any;
 }
 
 // ============================================================================
@@ -159,34 +362,117 @@ export interface FeatureFlags {
 
 export interface WidgetCallbacks {
   onSpecChange?: (spec: VisualizationSpec) => void;
+  onBuilderStateChange?: (builderState: BuilderState) => void;
   onDataChange?: (data: any[]) => void;
   onError?: (error: Error) => void;
   onExport?: (format: string, blob: Blob) => void;
   onAICommand?: (command: string, plan: ChartEditPlan) => void;
 }
 
+/**
+ * Field a template needs, filled automatically from the data's fields
+ */
+export interface TemplateSlot {
+  name: string; // Key in the field mapping passed to `build`, e.g. 'measure'
+  label: string; // e.g. 'Measure'
+  types: FieldType[]; // Field types that fit, best first
+  optional?: boolean;
+  maxCategories?: number; // Skip fields with more distinct values (e.g. for colour series)
+}
+
+/**
+ * Chart recipe for the template gallery; `build` receives the slot -> field mapping
+ * (optional slots may be missing) and returns the chart's builder state
+ */
+export interface ChartTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  slots: TemplateSlot[];
+  build: (fields: Record<string, string>) => Partial<BuilderState>;
+}
+
+/**
+ * Named chart styling (fonts, palettes, axis/legend/title styling, background)
+ */
+export interface ChartTheme {
+  id: string;
+  name: string;
+  config: Record<string, any>; // Vega-Lite config block, e.g. { font: 'Inter', range: { category: [...] } }
+}
+
+/**
+ * Chart suggested from the data's field types and stats
+ */
+export interface ChartRecommendation {
+  id: string;
+  title: string; // e.g. 'Sales over Date'
+  reason: string; // Why it fits, e.g. 'Trend of a measure over time'
+  score: number; // 0-1, higher is better
+  fields: string[]; // Fields the chart uses
+  chart: Partial<BuilderState>; // Mark and encodings; applying it resets the rest of the chart
+}
+
 export interface VegaWidgetConfig {
-  initialSpec?: VisualizationSpec;
+  initialSpec?: VisualizationSpec; // Applied once on mount (ignored when `spec` is set)
+  spec?: VisualizationSpec; // Controlled spec; pair with callbacks.onSpecChange
   data?: any[];
   features?: FeatureFlags;
   callbacks?: WidgetCallbacks;
-  builderState?: Partial<BuilderState>;
+  builderState?: Partial<BuilderState>; // Controlled builder state; pair with callbacks.onBuilderStateChange
+  templates?: ChartTemplate[]; // Added to the built-in gallery (features.enableTemplates); same id replaces a built-in
+  themes?: ChartTheme[]; // Brand themes offered alongside the built-in ones; same id replaces a built-in
+}
+
+/**
+ * Imperative handle exposed through VegaConfigWidget's `ref`
+ */
+export interface VegaWidgetHandle {
+  getSpec: () => VisualizationSpec;
+  setSpec: (spec: VisualizationSpec) => void;
+  applyPlan: (plan: ChartEditPlan) => Promise<void>; // Rejects (after onError) when the plan is disallowed or makes the spec invalid
+  undo: () => void;
+  redo: () => void;
+  exportImage: (format: ImageFormat, options?: ImageExportOptions) => Promise<Blob>;
+  reset: () => void;
+}
+
+export type ImageFormat = 'png' | 'svg' | 'pdf';
+
+export type PdfPageSize = 'a4' | 'a3' | 'letter' | 'legal' | 'fit'; // 'fit' sizes the page to the chart
+
+export interface ImageExportOptions {
+  scale?: number; // PNG pixels per chart pixel, e.g. 2 for high-DPI screens and slides
+  transparent?: boolean; // PNG and SVG: leave out the chart background
+  pageSize?: PdfPageSize;
+  orientation?: 'portrait' | 'landscape'; // Defaults to the chart's shape
+  margin?: number; // PDF page margin in millimetres
+  title?: string; // PDF heading above the chart
+  caption?: string; // PDF text below the chart
+  footer?: string; // PDF text at the foot of the page
 }
 
 // ============================================================================
 // AI / Natural Language Types
 // ============================================================================
 
+export type EncodingChannelName = Exclude<keyof BuilderState['encodings'], 'tooltip'>;
+
 export type Operation =
   | { op: 'set_mark'; mark: MarkType; options?: Partial<MarkConfig> }
-  | { op: 'set_encoding'; channel: 'x' | 'y' | 'color' | 'size'; field: string; type?: FieldType; config?: Partial<EncodingConfig> }
-  | { op: 'remove_encoding'; channel: 'x' | 'y' | 'color' | 'size' }
+  | { op: 'set_encoding'; channel: EncodingChannelName; field: string; type?: FieldType; config?: Partial<EncodingConfig> }
+  | { op: 'remove_encoding'; channel: EncodingChannelName }
   | { op: 'set_series_colors'; colors: Record<string, string> }
   | { op: 'set_color_scheme'; scheme: string }
   | { op: 'set_top_n'; n: number; byField?: string; order?: SortOrder }
   | { op: 'set_sort'; channelOrField: 'x' | 'y' | string; by?: string; order: SortOrder }
   | { op: 'add_filter'; expr: string }
   | { op: 'set_aggregate'; channel: 'x' | 'y'; op: AggregateOp }
+  | { op: 'add_param'; param: ChartParam }
+  | { op: 'remove_param'; name: string }
+  | { op: 'add_annotation'; annotation: ChartAnnotation }
+  | { op: 'remove_annotations'; kind?: AnnotationKind }
+  | { op: 'set_condition'; channel: ConditionChannel; conditions: EncodingCondition[]; value?: string | number }
   | { op: 'set_title'; title: string }
   | { op: 'set_size'; width?: number | 'container'; height?: number | 'container' };
 
@@ -227,7 +513,17 @@ export interface StateSnapshot {
 // Widget Internal State
 // ============================================================================
 
-export type TabType = 'data' | 'mark' | 'encodings' | 'transforms' | 'style' | 'ai' | 'spec';
+export type TabType =
+  | 'data'
+  | 'suggestions'
+  | 'templates'
+  | 'mark'
+  | 'encodings'
+  | 'transforms'
+  | 'annotations'
+  | 'style'
+  | 'ai'
+  | 'spec';
 
 export interface WidgetState {
   // Core state
@@ -235,6 +531,14 @@ export interface WidgetState {
   vegaSpec: VisualizationSpec;
   data: any[];
   dataFields: DataField[];
+  dataTruncatedFrom: number | null; // Original row count when data was sampled down to maxDataRows
+  statsProgress: number | null; // 0-1 while full-dataset field stats are being computed
+
+  // Host configuration
+  features: FeatureFlags;
+  callbacks: WidgetCallbacks;
+  templates: ChartTemplate[]; // Host templates, in addition to the built-in ones
+  themes: ChartTheme[]; // Host themes, in addition to the built-in ones
 
   // UI state
   activeTab: TabType;
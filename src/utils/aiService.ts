@@ -1,5 +1,6 @@
 import type { BuilderState, ChartEditPlan, DataField } from '@/types';
 import type { VisualizationSpec } from 'vega-embed';
+import { getFieldType } from '@/utils/fieldInference';
 
 export type AIProvider = 'openai' | 'anthropic' | 'openrouter';
 
@@ -64,7 +65,7 @@ export async function editSpecWithAI(
   const { provider, apiKey, model } = config;
 
   try {
-    const fieldInfo = dataFields.map(f => `- ${f.name} (${f.inferredType})`).join('\n');
+    const fieldInfo = dataFields.map(f => `- ${f.name} (${getFieldType(f)})`).join('\n');
 
     const prompt = `You are a Vega-Lite expert. The user has a complex Vega-Lite specification and wants to modify it.
 
@@ -117,7 +118,7 @@ function buildPrompt(
   builder: BuilderState,
   dataFields: DataField[]
 ): string {
-  const fieldInfo = dataFields.map(f => `- ${f.name} (${f.inferredType})`).join('\n');
+  const fieldInfo = dataFields.map(f => `- ${f.name} (${getFieldType(f)})`).join('\n');
 
   const currentState = {
     mark: builder.mark.type,
@@ -125,6 +126,20 @@ function buildPrompt(
       .filter(([_, enc]) => enc?.field)
       .map(([channel, enc]) => `${channel}: ${enc?.field}`)
       .join(', '),
+    layers: (builder.layers ?? [])
+      .map((l) => `${l.mark.type}${l.encodings.y?.field ? ` (y: ${l.encodings.y.field})` : ''}`)
+      .join(', '),
+    conditions: (['color', 'opacity', 'size'] as const)
+      .flatMap((channel) =>
+        (builder.encodings[channel]?.conditions ?? []).map((c) => `${channel} ${c.value} when ${c.test ?? c.param}`)
+      )
+      .join('; '),
+    annotations: (builder.annotations ?? [])
+      .map((a) => `${a.kind}${a.text ? ` "${a.text}"` : ''}`)
+      .join(', '),
+    params: (builder.params ?? [])
+      .map((p) => `${p.name} (${p.type}${p.field ? ` on ${p.field}` : ''})`)
+      .join(', '),
   };
 
   return `You are a Vega-Lite chart configuration assistant. Convert the user's natural language command into a structured list of operations.
@@ -135,15 +150,24 @@ ${fieldInfo}
 Current chart state:
 - Mark type: ${currentState.mark}
 - Encodings: ${currentState.encodings || 'none'}
+- Extra layers over the main mark: ${currentState.layers || 'none'}
+- Annotations: ${currentState.annotations || 'none'}
+- Conditional rules: ${currentState.conditions || 'none'}
+- Interactions: ${currentState.params || 'none'}
 
 User command: "${input}"
 
 Available operation types:
-1. set_mark: Change chart type (bar, line, area, point, circle, square, tick, rect, rule, text)
+1. set_mark: Change chart type (bar, line, area, point, circle, square, tick, rect, rule, text, arc, trail, image,
+   geoshape, boxplot, errorbar, errorband). Options: point, stacked, innerRadius (donut), padAngle, cornerRadius,
+   extent ("min-max" or an IQR multiple for boxplot; "ci", "stderr", "stdev" or "iqr" for errorbar/errorband)
    Example: {"op": "set_mark", "mark": "line", "options": {"point": true}}
+   Example: {"op": "set_mark", "mark": "arc", "options": {"innerRadius": 50}}
 
-2. set_encoding: Map a field to a visual channel (x, y, color, size)
+2. set_encoding: Map a field to a visual channel: x, y, color, size, x2/y2 (range ends), theta/radius (arc marks),
+   shape, opacity, strokeDash, text, detail, order, href, or row/column/facet for small multiples
    Example: {"op": "set_encoding", "channel": "color", "field": "Region", "type": "nominal"}
+   Example: {"op": "set_encoding", "channel": "facet", "field": "Region", "config": {"columns": 3}}
 
 3. set_series_colors: Set custom colors for specific categories
    Example: {"op": "set_series_colors", "colors": {"West": "#1f77b4", "East": "#ff7f0e"}}
@@ -172,6 +196,34 @@ Available operation types:
 11. remove_encoding: Remove an encoding
     Example: {"op": "remove_encoding", "channel": "color"}
 
+12. add_param: Add an interaction. Types: "brush" (drag an interval; "encodings": ["x"], ["y"] or both when omitted),
+    "click" (click marks; optional "field"), "legend" (click legend entries of the color field), "zoom" (pan/zoom
+    the scales), "input" (a control: "input" is "range", "select" or "radio"; "field" is compared with its value;
+    "effect" is "filter" or "color"). "highlight": true fades marks outside a brush/click/legend selection.
+    Ranges and dropdown options are filled in from the data. Reuse the name of an existing interaction to change it.
+    Example: {"op": "add_param", "param": {"name": "legend", "type": "legend", "highlight": true}}
+    Example: {"op": "add_param", "param": {"name": "Sales_input", "type": "input", "input": "range", "field": "Sales", "effect": "filter"}}
+
+13. remove_param: Remove an interaction by name
+    Example: {"op": "remove_param", "name": "brush"}
+
+14. set_condition: Set the conditional rules of "color", "opacity" or "size". Each rule has a Vega expression "test"
+    (or the "param" name of a brush/click/legend selection) and the "value" marks get when it matches; the first
+    matching rule wins. The list replaces the channel's current rules (an empty list removes them). "value" at the
+    top level is used for the other marks when the channel has no field.
+    Example: {"op": "set_condition", "channel": "color", "conditions": [{"test": "datum.Profit < 0", "value": "#d62728"}]}
+    Example: {"op": "set_condition", "channel": "opacity", "conditions": [{"param": "brush", "value": 1}], "value": 0.3}
+
+15. add_annotation: Draw a reference line, shaded band or text label over the chart. Kinds: "line" ("axis" "x" or
+    "y", default "y"; a constant "value" or an "aggregate" of the axis field: mean, median, min, max), "band" ("axis",
+    "start", "end"), "text" ("x", "y"). Positions are data values; dates as "YYYY-MM-DD". Optional: "text" (label),
+    "color", "dashed" (lines).
+    Example: {"op": "add_annotation", "annotation": {"kind": "line", "aggregate": "mean", "text": "Average", "dashed": true}}
+    Example: {"op": "add_annotation", "annotation": {"kind": "band", "axis": "x", "start": "2024-01-01", "end": "2024-03-31"}}
+
+16. remove_annotations: Remove annotations, optionally only one "kind"
+    Example: {"op": "remove_annotations", "kind": "line"}
+
 Respond with ONLY a valid JSON array of operations, nothing else. No markdown, no explanation.
 Example response: [{"op": "set_mark", "mark": "line"}, {"op": "set_encoding", "channel": "color", "field": "Region"}]`;
 }
@@ -0,0 +1,345 @@
+import type { FieldType } from '@/types';
+
+export type DecimalSeparator = '.' | ',';
+export type DateOrder = 'MDY' | 'DMY'; // Year-first dates (2024/12/31) are always read as YMD
+
+export interface CsvParseOptions {
+  delimiter?: string; // Detected from the text when omitted
+  hasHeader?: boolean; // First (non-skipped) row holds column names
+  skipRows?: number; // Rows to ignore before the header/data (titles, notes)
+  decimalSeparator?: DecimalSeparator;
+  dateOrder?: DateOrder; // How to read ambiguous dates like 03/04/2024
+  convertTypes?: boolean; // Parse numbers and dates; otherwise keep every cell as a string
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, any>[];
+  // Settings actually used (detected when not given in the options)
+  delimiter: string;
+  decimalSeparator: DecimalSeparator;
+  dateOrder: DateOrder;
+}
+
+// Candidates for auto-detection, in order of preference on ties
+export const DELIMITERS = [',', ';', '\t', '|'];
+
+const DETECTION_SAMPLE_ROWS = 20;
+
+/**
+ * Split delimited text into rows of raw cells following RFC 4180:
+ * quoted fields may contain delimiters, line breaks and doubled quotes ("")
+ */
+export function tokenizeDelimited(text: string, delimiter: string): string[][] {
+  const input = stripBOM(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      // Treat CRLF as a single line break
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      cell += ch;
+    }
+    i++;
+  }
+
+  // Last line without a trailing newline
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== '');
+}
+
+/**
+ * Pick the delimiter that splits the first rows into the most consistent number of columns
+ */
+export function detectDelimiter(text: string): string {
+  const sample = takeLines(stripBOM(text), DETECTION_SAMPLE_ROWS);
+  let best = DELIMITERS[0];
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const rows = tokenizeDelimited(sample, delimiter);
+    if (rows.length === 0) continue;
+
+    const counts = rows.map((r) => r.length);
+    const columns = mostCommon(counts);
+    if (columns < 2) continue;
+
+    // Share of rows agreeing on the column count, weighted towards more columns
+    const consistency = counts.filter((c) => c === columns).length / counts.length;
+    const score = consistency * 10 + Math.min(columns, 10) / 10;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse CSV/TSV text into row objects
+ */
+export function parseDelimited(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const delimiter = options.delimiter || detectDelimiter(text);
+  const hasHeader = options.hasHeader ?? true;
+  const convertTypes = options.convertTypes ?? true;
+  // Semicolon files usually come from locales with comma decimals; that's only the guess without evidence
+  const defaultSeparator: DecimalSeparator = delimiter === ';' ? ',' : '.';
+
+  const table = tokenizeDelimited(text, delimiter).slice(options.skipRows ?? 0);
+  if (table.length === 0) {
+    const decimalSeparator = options.decimalSeparator ?? defaultSeparator;
+    return { headers: [], rows: [], delimiter, decimalSeparator, dateOrder: options.dateOrder ?? 'MDY' };
+  }
+
+  const width = Math.max(...table.slice(0, DETECTION_SAMPLE_ROWS).map((r) => r.length));
+  const headers = hasHeader
+    ? uniqueHeaders(table[0], width)
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  const body = hasHeader ? table.slice(1) : table;
+
+  const sample = body.slice(0, 100).flat();
+  const decimalSeparator = options.decimalSeparator ?? detectDecimalSeparator(sample, defaultSeparator);
+  const dateOrder = options.dateOrder ?? detectDateOrder(sample, decimalSeparator === ',' ? 'DMY' : 'MDY');
+
+  const rows = body.map((cells) => {
+    const obj: Record<string, any> = {};
+    headers.forEach((header, i) => {
+      const raw = cells[i] ?? '';
+      obj[header] = convertTypes ? parseCell(raw, decimalSeparator, dateOrder) : raw;
+    });
+    return obj;
+  });
+
+  return { headers, rows, delimiter, decimalSeparator, dateOrder };
+}
+
+/**
+ * Convert a raw cell to a number, an ISO date string, null (empty) or the trimmed string
+ */
+export function parseCell(raw: string, decimalSeparator: DecimalSeparator, dateOrder: DateOrder): any {
+  const value = raw.trim();
+  if (value === '') return null;
+
+  const num = parseLocaleNumber(value, decimalSeparator);
+  if (num !== null) return num;
+
+  const date = parseLocaleDate(value, dateOrder);
+  if (date !== null) return date;
+
+  return value;
+}
+
+/**
+ * Parse "1,234.5" / "1.234,5" / "1 234,5" style numbers; null if not a number.
+ * Integers with leading zeros ("00123") are kept as text since they're usually codes.
+ */
+export function parseLocaleNumber(value: string, decimalSeparator: DecimalSeparator): number | null {
+  const s = value.trim();
+  const group = decimalSeparator === ',' ? '.' : ',';
+  const escape = (c: string) => `\\${c}`;
+  const pattern = new RegExp(
+    `^[+-]?(?:\\d{1,3}(?:[${escape(group)}\\s\\u00a0\\u202f']\\d{3})+|\\d+)?(?:${escape(decimalSeparator)}\\d+)?$`
+  );
+
+  if (!/\d/.test(s)) return null;
+
+  if (pattern.test(s)) {
+    const unsigned = s.replace(/^[+-]/, '');
+    if (/^0\d/.test(unsigned) && !unsigned.includes(decimalSeparator)) return null;
+
+    const normalized = s
+      .replace(new RegExp(`[${escape(group)}\\s\\u00a0\\u202f']`, 'g'), '')
+      .replace(decimalSeparator, '.');
+    const num = Number(normalized);
+    return Number.isFinite(num) ? num : null;
+  }
+
+  // Scientific notation only makes sense with a "." decimal point
+  if (decimalSeparator === '.' && /^[+-]?\d+(\.\d+)?e[+-]?\d+$/i.test(s)) {
+    return Number(s);
+  }
+
+  return null;
+}
+
+/**
+ * Parse a date into an ISO "YYYY-MM-DD" string (keeping any time part); null if not a date
+ */
+export function parseLocaleDate(value: string, dateOrder: DateOrder): string | null {
+  const s = value.trim();
+
+  // Already ISO - leave it for Vega to parse
+  if (/^\d{4}-\d{1,2}-\d{1,2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/.test(s)) {
+    return Number.isFinite(Date.parse(s.replace(' ', 'T'))) ? s : null;
+  }
+
+  const match = s.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[ T](\d{1,2}:\d{2}(?::\d{2})?))?$/);
+  if (!match) return null;
+
+  const [, a, b, c, time] = match;
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (a.length === 4) {
+    [year, month, day] = [+a, +b, +c];
+  } else if (c.length === 4 || c.length === 2) {
+    year = c.length === 2 ? 2000 + +c - (+c >= 50 ? 100 : 0) : +c;
+    [month, day] = dateOrder === 'DMY' ? [+b, +a] : [+a, +b];
+  } else {
+    return null;
+  }
+
+  if (!isValidDate(year, month, day)) return null;
+
+  const iso = `${year}-${pad(month)}-${pad(day)}`;
+  return time ? `${iso}T${time.replace(/^(\d):/, '0$1:')}` : iso;
+}
+
+/**
+ * Guess the decimal separator from numbers that only parse one way ("3.14" vs "3,14"); ambiguous
+ * values like "1,234" don't count
+ */
+export function detectDecimalSeparator(values: string[], fallback: DecimalSeparator): DecimalSeparator {
+  let dot = 0;
+  let comma = 0;
+  for (const value of values) {
+    const asDot = parseLocaleNumber(value, '.') !== null;
+    const asComma = parseLocaleNumber(value, ',') !== null;
+    if (asDot && !asComma) dot++;
+    if (asComma && !asDot) comma++;
+  }
+  if (dot === comma) return fallback;
+  return dot > comma ? '.' : ',';
+}
+
+/**
+ * Guess whether slash dates are day-first or month-first from values that can only be read one way
+ */
+export function detectDateOrder(values: string[], fallback: DateOrder): DateOrder {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})(?:[ T].*)?$/);
+    if (!match) continue;
+    if (+match[1] > 12 && +match[2] <= 12) return 'DMY';
+    if (+match[2] > 12 && +match[1] <= 12) return 'MDY';
+  }
+  return fallback;
+}
+
+/**
+ * Coerce column values so they match the field types chosen in the import wizard
+ */
+export function coerceColumnTypes(
+  rows: Record<string, any>[],
+  types: Record<string, FieldType>,
+  decimalSeparator: DecimalSeparator,
+  dateOrder: DateOrder
+): Record<string, any>[] {
+  return rows.map((row) => {
+    const next = { ...row };
+    for (const [name, type] of Object.entries(types)) {
+      next[name] = coerceValue(row[name], type, decimalSeparator, dateOrder);
+    }
+    return next;
+  });
+}
+
+function coerceValue(value: any, type: FieldType, decimalSeparator: DecimalSeparator, dateOrder: DateOrder): any {
+  if (value == null) return null;
+
+  switch (type) {
+    case 'quantitative': {
+      if (typeof value === 'number') return value;
+      return parseLocaleNumber(String(value), decimalSeparator) ?? (Number.isFinite(Number(value)) ? Number(value) : null);
+    }
+    case 'temporal': {
+      // Bare years (2024) would otherwise be read as epoch milliseconds
+      if (typeof value === 'number') return String(value);
+      return parseLocaleDate(String(value), dateOrder) ?? String(value);
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Fill in blank header cells and make duplicates unique ("Sales", "Sales_2")
+ */
+function uniqueHeaders(cells: string[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const base = (cells[i] ?? '').trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * First `n` physical lines (a quoted field may span lines, which only shortens the sample)
+ */
+function takeLines(text: string, n: number): string {
+  let end = 0;
+  for (let i = 0; i < n; i++) {
+    const next = text.indexOf('\n', end);
+    if (next === -1) return text;
+    end = next + 1;
+  }
+  return text.slice(0, end);
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
@@ -0,0 +1,132 @@
+import type { ChartTransform, FeatureFlags, MarkType, TabType } from '@/types';
+import { parseTransforms } from '@/utils/specParser';
+
+/**
+ * Defaults used when the host doesn't specify a flag
+ */
+export const DEFAULT_FEATURES: FeatureFlags = {
+  enableAI: true,
+  enableSpecEditor: true,
+  enableDataEditor: false, // Data tab is hidden unless the host opts in
+  enableExport: true,
+  enableTemplates: false,
+};
+
+/**
+ * Fill in unspecified flags with defaults
+ */
+export function resolveFeatures(features?: FeatureFlags): FeatureFlags {
+  return {
+    ...features,
+    enableAI: features?.enableAI ?? DEFAULT_FEATURES.enableAI,
+    enableSpecEditor: features?.enableSpecEditor ?? DEFAULT_FEATURES.enableSpecEditor,
+    enableDataEditor: features?.enableDataEditor ?? DEFAULT_FEATURES.enableDataEditor,
+    enableExport: features?.enableExport ?? DEFAULT_FEATURES.enableExport,
+    enableTemplates: features?.enableTemplates ?? DEFAULT_FEATURES.enableTemplates,
+  };
+}
+
+export function isMarkAllowed(mark: MarkType, features: FeatureFlags): boolean {
+  return !features.allowedMarks || features.allowedMarks.includes(mark);
+}
+
+export function isTransformAllowed(kind: ChartTransform['kind'], features: FeatureFlags): boolean {
+  return !features.allowedTransforms || features.allowedTransforms.includes(kind);
+}
+
+/**
+ * Whether a tab should be shown for the given flags
+ */
+export function isTabEnabled(tab: TabType, features: FeatureFlags): boolean {
+  switch (tab) {
+    case 'data':
+      return !!features.enableDataEditor;
+    case 'templates':
+      return !!features.enableTemplates;
+    case 'ai':
+      return !!features.enableAI;
+    case 'spec':
+      return !!features.enableSpecEditor;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Reduce rows to at most `maxRows` by taking evenly spaced rows,
+ * so the sample keeps the original order and spread (e.g. the full time range)
+ */
+export function limitRows(rows: any[], maxRows?: number): { rows: any[]; truncatedFrom: number | null } {
+  const indices = sampleIndices(rows.length, maxRows);
+  if (!indices) {
+    return { rows, truncatedFrom: null };
+  }
+  return { rows: indices.map((i) => rows[i]), truncatedFrom: rows.length };
+}
+
+/**
+ * Evenly spaced row indices to keep out of `total`; null when no sampling is needed.
+ * Lets importers read only the sampled rows instead of materializing everything first.
+ */
+export function sampleIndices(total: number, maxRows?: number): number[] | null {
+  if (!maxRows || maxRows <= 0 || total <= maxRows) {
+    return null;
+  }
+
+  const step = total / maxRows;
+  const indices: number[] = [];
+  for (let i = 0; i < maxRows; i++) {
+    indices.push(Math.floor(i * step));
+  }
+  return indices;
+}
+
+/**
+ * Find marks anywhere in a spec (layers, facets, concats) that the host has disallowed
+ */
+export function findDisallowedSpecMarks(spec: any, features: FeatureFlags): string[] {
+  if (!features.allowedMarks) return [];
+
+  const found = new Set<string>();
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (node.mark) {
+      const type = typeof node.mark === 'string' ? node.mark : node.mark.type;
+      if (type && !isMarkAllowed(type, features)) found.add(type);
+    }
+    ['layer', 'spec', 'hconcat', 'vconcat', 'concat'].forEach((key) => visit(node[key]));
+  };
+
+  visit(spec);
+  return Array.from(found);
+}
+
+/**
+ * Find transform kinds anywhere in a spec that the host has disallowed
+ * (steps the transform editors can't represent count as 'custom')
+ */
+export function findDisallowedSpecTransforms(spec: any, features: FeatureFlags): string[] {
+  if (!features.allowedTransforms) return [];
+
+  const found = new Set<string>();
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (Array.isArray(node.transform)) {
+      parseTransforms(node.transform).forEach((t) => {
+        if (!isTransformAllowed(t.kind, features)) found.add(t.kind);
+      });
+    }
+    ['layer', 'spec', 'hconcat', 'vconcat', 'concat'].forEach((key) => visit(node[key]));
+  };
+
+  visit(spec);
+  return Array.from(found);
+}
@@ -1,64 +1,125 @@
-import type { DataField, FieldType, FieldStats } from '@/types';
+import type { DataField, FieldFormat, FieldType, FieldStats, HistogramBin } from '@/types';
+import { sampleIndices } from '@/utils/featureFlags';
+
+// Rows used for the quick, synchronous inference in setData; full stats come from the stats worker
+const INFERENCE_SAMPLE_SIZE = 1000;
+const HISTOGRAM_BINS = 20;
+const TOP_VALUES = 10;
+
+// Share of non-null values that must match a format for the field to use it
+const FORMAT_MATCH_RATIO = 0.9;
 
 /**
- * Infer field types from data rows
+ * The type each text format converts to
+ */
+export const FORMAT_TYPES: Record<FieldFormat, FieldType> = {
+  number: 'quantitative',
+  percent: 'quantitative',
+  currency: 'quantitative',
+  'epoch-ms': 'temporal',
+  quarter: 'temporal',
+  'month-year': 'temporal',
+};
+
+const NUMBER_BODY = '(?:\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.\\d+)?|\\.\\d+';
+const CURRENCY_SYMBOLS = '[$€£¥₹]';
+const NUMBER_PATTERN = new RegExp(`^[-+]?(?:${NUMBER_BODY})$`);
+const PERCENT_PATTERN = new RegExp(`^[-+]?(?:${NUMBER_BODY})\\s?%$`);
+const CURRENCY_PATTERN = new RegExp(
+  `^[-+]?${CURRENCY_SYMBOLS}\\s?(?:${NUMBER_BODY})$|^[-+]?(?:${NUMBER_BODY})\\s?${CURRENCY_SYMBOLS}$`
+);
+const QUARTER_PATTERN = /^(?:Q([1-4])[\s/-]*(\d{4})|(\d{4})[\s/-]*Q([1-4]))$/i;
+const MONTH_YEAR_PATTERN = /^([a-z]{3,9})\.?[\s/-]+(\d{4})$/i;
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Integer timestamps between 2000 and 2100 in milliseconds
+const EPOCH_MS_MIN = Date.UTC(2000, 0, 1);
+const EPOCH_MS_MAX = Date.UTC(2100, 0, 1);
+
+// ISO dates and timestamps: 2024-01, 2024-01-31, 2024-01-31T09:30:00.000+02:00
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}(?:-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?)?$/;
+
+/**
+ * Infer field types from data rows (an evenly spaced sample, so it stays fast on large data)
  */
 export function inferFields(rows: Record<string, any>[]): DataField[] {
   if (!rows || rows.length === 0) {
     return [];
   }
 
+  const indices = sampleIndices(rows.length, INFERENCE_SAMPLE_SIZE);
+  const sample = indices ? indices.map((i) => rows[i]) : rows;
+
   const first = rows[0] || {};
-  return Object.keys(first).map((name) => {
-    const sampleValues = rows.slice(0, 100).map((r) => r[name]);
-    const inferredType = inferFieldType(sampleValues);
-    const stats = calculateFieldStats(sampleValues, inferredType);
-
-    return {
-      name,
-      inferredType,
-      stats,
-    };
-  });
+  return Object.keys(first).map((name) => summarizeField(name, sample.map((r) => r?.[name]), !indices));
+}
+
+/**
+ * Infer the type and compute stats for one field's values
+ */
+export function summarizeField(name: string, values: any[], complete = true): DataField {
+  const format = inferFieldFormat(values);
+  const inferredType = format ? FORMAT_TYPES[format] : inferFieldType(values);
+  // Stats describe the converted values, the same ones the chart will plot
+  const parsed = format ? values.map((v) => parseFormattedValue(v, format)) : values;
+  const stats = calculateFieldStats(parsed, inferredType);
+  stats.complete = complete;
+
+  return {
+    name,
+    inferredType,
+    ...(format && { format }),
+    stats,
+  };
+}
+
+/**
+ * The type a field is treated as: the user's override if set, otherwise the inferred type
+ */
+export function getFieldType(field: DataField): FieldType {
+  return field.overrideType ?? field.inferredType;
 }
 
 /**
  * Infer the data type of a field from sample values
  */
 export function inferFieldType(samples: any[]): FieldType {
-  // Filter out null/undefined values
-  const validSamples = samples.filter((v) => v != null);
+  let valid = 0;
+  let nums = 0;
+  let dateLike = 0;
+  const unique = new Set<string>();
 
-  if (validSamples.length === 0) {
+  for (const v of samples) {
+    // Skip null/undefined values
+    if (v == null) continue;
+    valid++;
+
+    if (typeof v === 'number' && Number.isFinite(v)) {
+      nums++;
+    } else if (isDateLike(v)) {
+      dateLike++;
+    }
+
+    // Only the first 21 distinct values matter for the ordinal check
+    if (unique.size <= 20) unique.add(String(v));
+  }
+
+  if (valid === 0) {
     return 'nominal';
   }
 
   // Check for numbers
-  const nums = validSamples.filter((v) => typeof v === 'number' && Number.isFinite(v));
-  if (nums.length > validSamples.length * 0.6) {
+  if (nums > valid * 0.6) {
     return 'quantitative';
   }
 
   // Check for dates/temporal values
-  const dateLike = validSamples.filter((v) => {
-    if (v == null) return false;
-
-    // Check if it's a Date object
-    if (v instanceof Date) return true;
-
-    // Check if it's a parseable date string
-    const s = String(v);
-    const t = Date.parse(s);
-    return Number.isFinite(t) && /\d{4}[-/]\d{2}[-/]\d{2}/.test(s);
-  });
-
-  if (dateLike.length > validSamples.length * 0.6) {
+  if (dateLike > valid * 0.6) {
     return 'temporal';
   }
 
   // Check if ordinal (limited unique values with potential ordering)
-  const unique = new Set(validSamples.map(String));
-  if (unique.size <= 20 && unique.size < validSamples.length * 0.5) {
+  if (unique.size <= 20 && unique.size < valid * 0.5) {
     return 'ordinal';
   }
 
@@ -66,43 +127,199 @@ export function inferFieldType(samples: any[]): FieldType {
   return 'nominal';
 }
 
+function isDateLike(v: any): boolean {
+  // Check if it's a Date object
+  if (v instanceof Date) return true;
+
+  // Check if it's a parseable date string
+  const s = String(v).trim();
+  return (ISO_DATE_PATTERN.test(s) || /\d{4}[-/]\d{2}[-/]\d{2}/.test(s)) && Number.isFinite(Date.parse(s));
+}
+
+/**
+ * Detect values stored as formatted text (or epoch timestamps) that Vega can't use directly
+ */
+export function inferFieldFormat(samples: any[]): FieldFormat | undefined {
+  const values = samples.filter((v) => v != null && v !== '');
+  if (values.length === 0) return undefined;
+
+  const matches = (test: (v: any) => boolean) => values.filter(test).length >= values.length * FORMAT_MATCH_RATIO;
+  const strings = values.filter((v): v is string => typeof v === 'string').map((v) => v.trim());
+  // Plain numbers mixed in with formatted strings still count towards the numeric formats
+  const isNumberLike = (v: any, pattern: RegExp) =>
+    (typeof v === 'number' && Number.isFinite(v)) || (typeof v === 'string' && pattern.test(v.trim()));
+
+  if (strings.length === 0) {
+    const isEpochMs = (v: any) => Number.isInteger(v) && v >= EPOCH_MS_MIN && v <= EPOCH_MS_MAX;
+    return matches(isEpochMs) ? 'epoch-ms' : undefined;
+  }
+
+  if (strings.some((s) => CURRENCY_PATTERN.test(s)) && matches((v) => isNumberLike(v, CURRENCY_PATTERN))) {
+    return 'currency';
+  }
+  if (strings.some((s) => PERCENT_PATTERN.test(s)) && matches((v) => isNumberLike(v, PERCENT_PATTERN))) {
+    return 'percent';
+  }
+  // Integers with leading zeros ("00123") are codes, not numbers
+  if (!strings.some((s) => /^[-+]?0\d/.test(s)) && matches((v) => isNumberLike(v, NUMBER_PATTERN))) {
+    return 'number';
+  }
+  if (matches((v) => typeof v === 'string' && QUARTER_PATTERN.test(v.trim()))) {
+    return 'quarter';
+  }
+  if (matches((v) => typeof v === 'string' && monthIndex(v) !== null)) {
+    return 'month-year';
+  }
+  return undefined;
+}
+
+/**
+ * Convert a formatted value to a number (temporal formats give epoch milliseconds in local time,
+ * matching Vega's datetime()); null when the value doesn't match the format
+ */
+export function parseFormattedValue(value: any, format: FieldFormat): number | null {
+  if (value == null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const s = String(value).trim();
+
+  switch (format) {
+    case 'number':
+    case 'percent':
+    case 'currency': {
+      const n = Number(s.replace(/[^0-9.eE+-]/g, ''));
+      return s.replace(/[^0-9]/g, '') !== '' && Number.isFinite(n) ? n : null;
+    }
+    case 'epoch-ms':
+      return Number.isFinite(Number(s)) ? Number(s) : null;
+    case 'quarter': {
+      const match = s.match(QUARTER_PATTERN);
+      if (!match) return null;
+      const quarter = Number(match[1] ?? match[4]);
+      const year = Number(match[2] ?? match[3]);
+      return new Date(year, (quarter - 1) * 3, 1).getTime();
+    }
+    case 'month-year': {
+      const month = monthIndex(s);
+      const year = s.match(MONTH_YEAR_PATTERN)?.[2];
+      return month === null || !year ? null : new Date(Number(year), month, 1).getTime();
+    }
+  }
+}
+
 /**
- * Calculate statistics for a field
+ * Month (0-11) of a "Jan 2024" / "January-2024" value; null if it isn't one
+ */
+function monthIndex(value: string): number | null {
+  const match = value.trim().match(MONTH_YEAR_PATTERN);
+  if (!match) return null;
+  const word = match[1].toLowerCase();
+  const index = MONTHS.findIndex((m) => m.startsWith(word));
+  return index === -1 ? null : index;
+}
+
+/**
+ * Calculate statistics for a field in a single pass
+ * (no spreading into Math.min/max, which overflows the stack on large arrays)
  */
 export function calculateFieldStats(values: any[], type: FieldType): FieldStats {
-  const validValues = values.filter((v) => v != null);
-  const nulls = values.length - validValues.length;
+  const counts = new Map<string, number>();
+  const nums: number[] = [];
+  const numeric = type === 'quantitative' || type === 'temporal';
+  let nulls = 0;
+
+  for (const v of values) {
+    if (v == null) {
+      nulls++;
+      continue;
+    }
+    const key = String(v);
+    counts.set(key, (counts.get(key) || 0) + 1);
+
+    if (numeric) {
+      const n = toNumber(v, type);
+      if (n !== null) nums.push(n);
+    }
+  }
 
   const stats: FieldStats = {
+    count: values.length,
     nulls,
-    unique: new Set(validValues.map(String)).size,
+    unique: counts.size,
   };
 
-  if (type === 'quantitative') {
-    const nums = validValues.filter((v) => typeof v === 'number' && Number.isFinite(v));
-    if (nums.length > 0) {
-      stats.min = Math.min(...nums);
-      stats.max = Math.max(...nums);
-    }
+  if (nums.length > 0) {
+    Object.assign(stats, summarizeNumbers(nums));
   }
 
   // Calculate top values for categorical fields
   if (type === 'nominal' || type === 'ordinal') {
-    const counts = new Map<string, number>();
-    validValues.forEach((v) => {
-      const key = String(v);
-      counts.set(key, (counts.get(key) || 0) + 1);
-    });
-
     stats.topValues = Array.from(counts.entries())
       .map(([value, count]) => ({ value, count }))
       .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
+      .slice(0, TOP_VALUES);
   }
 
   return stats;
 }
 
+/**
+ * Numbers for quantitative fields; epoch milliseconds for temporal ones
+ */
+function toNumber(v: any, type: FieldType): number | null {
+  if (type === 'temporal') {
+    const t = v instanceof Date ? v.getTime() : typeof v === 'number' ? v : Date.parse(String(v));
+    return Number.isFinite(t) ? t : null;
+  }
+  return typeof v === 'number' && Number.isFinite(v) ? v : null;
+}
+
+function summarizeNumbers(nums: number[]): Pick<FieldStats, 'min' | 'max' | 'mean' | 'q1' | 'median' | 'q3' | 'histogram'> {
+  const sorted = Float64Array.from(nums).sort();
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  let sum = 0;
+  for (let i = 0; i < sorted.length; i++) sum += sorted[i];
+
+  return {
+    min,
+    max,
+    mean: sum / sorted.length,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+    histogram: buildHistogram(sorted, min, max),
+  };
+}
+
+/**
+ * Linearly interpolated quantile of sorted values (same method as d3.quantile)
+ */
+function quantile(sorted: Float64Array, p: number): number {
+  const i = (sorted.length - 1) * p;
+  const lo = Math.floor(i);
+  const hi = Math.min(lo + 1, sorted.length - 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+}
+
+function buildHistogram(sorted: Float64Array, min: number, max: number): HistogramBin[] {
+  if (min === max) {
+    return [{ start: min, end: max, count: sorted.length }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (let i = 0; i < sorted.length; i++) {
+    // The max value belongs to the last bin
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((sorted[i] - min) / width))].count++;
+  }
+  return bins;
+}
+
 /**
  * Resolve a field name from user input (fuzzy matching)
  */
@@ -0,0 +1,87 @@
+import type { DataField } from '@/types';
+import { summarizeField } from '@/utils/fieldInference';
+
+export interface FieldStatsRequest {
+  rows: Record<string, any>[];
+  fields: string[];
+}
+
+export type FieldStatsMessage =
+  | { type: 'field'; field: DataField; done: number; total: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export interface FieldStatsHandlers {
+  onField: (field: DataField) => void;
+  onProgress: (progress: number) => void;
+  onDone: () => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Compute full-dataset stats for each field off the main thread, reporting each field as it completes.
+ * Returns a function that cancels the job.
+ */
+export function computeFieldStats(
+  rows: Record<string, any>[],
+  fields: string[],
+  handlers: FieldStatsHandlers
+): () => void {
+  if (typeof Worker === 'undefined') {
+    return computeInChunks(rows, fields, handlers);
+  }
+
+  const worker = new Worker(new URL('../workers/fieldStats.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<FieldStatsMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'field':
+        handlers.onField(message.field);
+        handlers.onProgress(message.done / message.total);
+        break;
+      case 'done':
+        worker.terminate();
+        handlers.onDone();
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError?.(new Error(message.message));
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    handlers.onError?.(new Error(event.message || 'Field stats worker failed'));
+  };
+
+  const request: FieldStatsRequest = { rows, fields };
+  worker.postMessage(request);
+
+  return () => worker.terminate();
+}
+
+/**
+ * Fallback without Web Workers: one field per macrotask so the UI stays responsive
+ */
+function computeInChunks(rows: Record<string, any>[], fields: string[], handlers: FieldStatsHandlers): () => void {
+  let cancelled = false;
+  let index = 0;
+
+  const step = () => {
+    if (cancelled) return;
+    if (index >= fields.length) {
+      handlers.onDone();
+      return;
+    }
+    const name = fields[index++];
+    handlers.onField(summarizeField(name, rows.map((r) => r?.[name])));
+    handlers.onProgress(index / fields.length);
+    setTimeout(step, 0);
+  };
+
+  setTimeout(step, 0);
+  return () => {
+    cancelled = true;
+  };
+}
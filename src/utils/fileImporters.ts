@@ -0,0 +1,169 @@
+import type { WorkBook } from 'xlsx';
+import { limitRows, sampleIndices } from '@/utils/featureFlags';
+
+/**
+ * Rows read from a file, sampled down to the row limit when needed
+ */
+export interface ImportedRows {
+  rows: any[];
+  truncatedFrom: number | null;
+}
+
+export interface SheetInfo {
+  name: string;
+  rowCount: number;
+}
+
+export type FileKind = 'json' | 'delimited' | 'workbook' | 'arrow' | 'parquet';
+
+const FILE_KINDS: { kind: FileKind; pattern: RegExp }[] = [
+  { kind: 'json', pattern: /\.json$/i },
+  { kind: 'delimited', pattern: /\.(csv|tsv|txt)$/i },
+  { kind: 'workbook', pattern: /\.(xlsx|xlsm|xlsb|xls|ods)$/i },
+  { kind: 'arrow', pattern: /\.(arrow|arrows|feather|ipc)$/i },
+  { kind: 'parquet', pattern: /\.parquet$/i },
+];
+
+export const ACCEPTED_FILE_TYPES = '.json,.csv,.tsv,.txt,.xlsx,.xlsm,.xlsb,.xls,.ods,.arrow,.arrows,.feather,.ipc,.parquet';
+
+export function getFileKind(fileName: string): FileKind | null {
+  return FILE_KINDS.find((k) => k.pattern.test(fileName))?.kind ?? null;
+}
+
+/**
+ * Parse a spreadsheet workbook (the library is loaded on first use)
+ */
+export async function readWorkbook(buffer: ArrayBuffer): Promise<WorkBook> {
+  const XLSX = await import('xlsx');
+  return XLSX.read(buffer, { type: 'array', cellDates: true, dense: true });
+}
+
+/**
+ * Sheets in a workbook with their data row counts (excluding the header row)
+ */
+export async function listSheets(workbook: WorkBook): Promise<SheetInfo[]> {
+  const XLSX = await import('xlsx');
+  return workbook.SheetNames.map((name) => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    const range = ref ? XLSX.utils.decode_range(ref) : null;
+    return { name, rowCount: range ? Math.max(0, range.e.r - range.s.r) : 0 };
+  });
+}
+
+/**
+ * Read one sheet as row objects keyed by its header row
+ */
+export async function readSheet(workbook: WorkBook, sheetName: string, maxRows?: number): Promise<ImportedRows> {
+  const XLSX = await import('xlsx');
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found`);
+  }
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, any>>(sheet, { defval: null, raw: true });
+  const { rows: limited, truncatedFrom } = limitRows(rows, maxRows);
+  // Spreadsheet dates are wall-clock times, so format them in local time
+  return { rows: limited.map((row) => normalizeRow(row, false)), truncatedFrom };
+}
+
+/**
+ * Read an Apache Arrow IPC file or stream; only the sampled rows are converted to objects
+ */
+export async function readArrow(buffer: ArrayBuffer, maxRows?: number): Promise<ImportedRows> {
+  const { tableFromIPC, DataType } = await import('apache-arrow');
+  const table = tableFromIPC(new Uint8Array(buffer));
+
+  const temporalFields = new Set(
+    table.schema.fields
+      .filter((f) => DataType.isDate(f.type) || DataType.isTimestamp(f.type))
+      .map((f) => f.name)
+  );
+
+  const indices = sampleIndices(table.numRows, maxRows) ?? Array.from({ length: table.numRows }, (_, i) => i);
+  const rows = indices.map((i) => {
+    const row = normalizeRow(table.get(i)?.toJSON() ?? {}, true);
+    // Arrow returns dates and timestamps as epoch milliseconds
+    temporalFields.forEach((name) => {
+      if (typeof row[name] === 'number') row[name] = formatDate(new Date(row[name]), true);
+    });
+    return row;
+  });
+
+  return { rows, truncatedFrom: indices.length < table.numRows ? table.numRows : null };
+}
+
+/**
+ * Read a Parquet file; when sampling, only row groups containing sampled rows are decoded
+ */
+export async function readParquet(buffer: ArrayBuffer, maxRows?: number): Promise<ImportedRows> {
+  const { parquetMetadata, parquetReadObjects } = await import('hyparquet');
+  const metadata = parquetMetadata(buffer);
+  const total = Number(metadata.num_rows);
+  const indices = sampleIndices(total, maxRows);
+
+  if (!indices) {
+    const rows = await parquetReadObjects({ file: buffer, metadata });
+    return { rows: rows.map((row) => normalizeRow(row, true)), truncatedFrom: null };
+  }
+
+  const rows: any[] = [];
+  let groupStart = 0;
+  let next = 0;
+  for (const group of metadata.row_groups) {
+    const groupEnd = groupStart + Number(group.num_rows);
+    const wanted: number[] = [];
+    while (next < indices.length && indices[next] < groupEnd) {
+      wanted.push(indices[next++]);
+    }
+
+    if (wanted.length > 0) {
+      const rowStart = wanted[0];
+      const chunk = await parquetReadObjects({
+        file: buffer,
+        metadata,
+        rowStart,
+        rowEnd: wanted[wanted.length - 1] + 1,
+      });
+      wanted.forEach((i) => rows.push(normalizeRow(chunk[i - rowStart], true)));
+    }
+    groupStart = groupEnd;
+  }
+
+  return { rows, truncatedFrom: total };
+}
+
+/**
+ * Make values JSON-friendly for the store and Vega (BigInt -> number, Date -> ISO string)
+ */
+function normalizeRow(row: Record<string, any>, utc: boolean): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'bigint') {
+      result[key] = Number(value);
+    } else if (value instanceof Date) {
+      result[key] = formatDate(value, utc);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Date-only values become "YYYY-MM-DD"; values with a time keep it
+ */
+function formatDate(date: Date, utc: boolean): string | null {
+  if (Number.isNaN(date.getTime())) return null;
+
+  if (utc) {
+    const iso = date.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
@@ -0,0 +1,183 @@
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { View, parse, type Spec } from 'vega';
+import type { ImageExportOptions, ImageFormat } from '@/types';
+
+const POINTS_PER_MM = 72 / 25.4;
+const POINTS_PER_PX = 0.75; // CSS pixels are 1/96 inch
+const DEFAULT_MARGIN_MM = 15;
+const BLOCK_GAP = 12; // Points between the title, chart, caption and footer
+const LINE_HEIGHT = 1.15;
+
+// Font size (pt), style and colour of the PDF's text blocks
+const PDF_TEXT = {
+  title: { size: 16, style: 'bold', color: '#111827' },
+  caption: { size: 10, style: 'normal', color: '#374151' },
+  footer: { size: 8, style: 'normal', color: '#6b7280' },
+} as const;
+
+/**
+ * Render a Vega view to an image blob: PNG at `scale`, SVG, or a vector PDF page built from the SVG.
+ * `spec` is the view's compiled Vega spec; transparent images are drawn by an off-screen copy of it.
+ */
+export async function viewToBlob(
+  view: View,
+  spec: Spec,
+  format: ImageFormat,
+  options: ImageExportOptions = {}
+): Promise<Blob> {
+  if (format === 'pdf') {
+    return svgToPdf(await view.toSVG(), options);
+  }
+
+  const source = options.transparent ? await transparentCopy(view, spec) : view;
+  try {
+    if (format === 'svg') {
+      return new Blob([await source.toSVG()], { type: 'image/svg+xml' });
+    }
+
+    const canvas = await source.toCanvas(options.scale ?? 1);
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to encode chart as PNG'));
+        }
+      }, 'image/png');
+    });
+  } finally {
+    if (source !== view) source.finalize();
+  }
+}
+
+/**
+ * A headless copy of the view without its background, in the view's current state (selections, input
+ * values) and size; the chart on screen is left untouched
+ */
+async function transparentCopy(view: View, spec: Spec): Promise<View> {
+  const copy = new View(parse({ ...spec, background: 'transparent' }), { renderer: 'none' });
+  await copy.runAsync(); // Facet and layer scopes exist only after the first run
+
+  const { signals = {}, ...state } = view.getState();
+  const { width, height, background, ...rest } = signals;
+  copy.setState({ ...state, signals: rest });
+
+  // Container-sized charts: the copy has no container, so it takes the size of the view's
+  const container = view.container();
+  const sizedToContainer = (name: string) =>
+    spec.signals?.some(
+      (signal) => signal.name === name && 'init' in signal && String(signal.init).includes('containerSize')
+    );
+  if (container && sizedToContainer('width')) copy.width(container.clientWidth);
+  if (container && sizedToContainer('height')) copy.height(container.clientHeight);
+
+  await copy.runAsync();
+  return copy;
+}
+
+function svgSize(svg: string): { width: number; height: number } {
+  const root = svg.match(/^<svg[^>]*>/)?.[0] ?? '';
+  return {
+    width: parseFloat(root.match(/\swidth="([\d.]+)"/)?.[1] ?? '0'),
+    height: parseFloat(root.match(/\sheight="([\d.]+)"/)?.[1] ?? '0'),
+  };
+}
+
+/**
+ * One PDF page: title, the chart at its on-screen size (shrunk to fit), caption, and a footer at the
+ * bottom margin. 'fit' pages are sized to their contents. The chart is converted by svg2pdf.js, whose
+ * text uses the PDF standard fonts: characters outside Latin-1 don't print.
+ */
+async function svgToPdf(svg: string, options: ImageExportOptions): Promise<Blob> {
+  const chart = svgSize(svg);
+  if (chart.width <= 0 || chart.height <= 0) {
+    throw new Error('Chart has no size to export');
+  }
+  const margin = (options.margin ?? DEFAULT_MARGIN_MM) * POINTS_PER_MM;
+  const pageSize = options.pageSize ?? 'a4';
+  const orientation = options.orientation ?? (chart.width > chart.height ? 'landscape' : 'portrait');
+
+  const fitWidth = chart.width * POINTS_PER_PX;
+  const pdf =
+    pageSize === 'fit'
+      ? sizedToContents(options, chart, margin)
+      : new jsPDF({ unit: 'pt', format: pageSize, orientation });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageSize === 'fit' ? fitWidth : pageWidth - 2 * margin;
+
+  const title = textBlock(pdf, options.title, 'title', contentWidth);
+  const caption = textBlock(pdf, options.caption, 'caption', contentWidth);
+  const footer = textBlock(pdf, options.footer, 'footer', contentWidth);
+
+  const available = pageHeight - 2 * margin - title.space - caption.space - footer.space;
+  const scale = Math.min(POINTS_PER_PX, contentWidth / chart.width, available / chart.height);
+  if (scale <= 0) {
+    throw new Error('The margins and text leave no room for the chart');
+  }
+
+  let y = margin;
+  y = drawTextBlock(pdf, title, margin, y);
+  const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+  await svg2pdf(element, pdf, {
+    x: margin + (contentWidth - chart.width * scale) / 2,
+    y,
+    width: chart.width * scale,
+    height: chart.height * scale,
+  });
+  y += chart.height * scale + (caption.lines.length > 0 ? BLOCK_GAP : 0);
+  drawTextBlock(pdf, caption, margin, y);
+  drawTextBlock(pdf, footer, margin, pageHeight - margin - footer.height);
+
+  return pdf.output('blob');
+}
+
+function sizedToContents(
+  options: ImageExportOptions,
+  chart: { width: number; height: number },
+  margin: number
+): jsPDF {
+  const width = chart.width * POINTS_PER_PX;
+  const measure = new jsPDF({ unit: 'pt' });
+  const text = (['title', 'caption', 'footer'] as const).reduce(
+    (total, kind) => total + textBlock(measure, options[kind], kind, width).space,
+    0
+  );
+  const height = chart.height * POINTS_PER_PX + text;
+  return new jsPDF({
+    unit: 'pt',
+    format: [width + 2 * margin, height + 2 * margin],
+    orientation: width > height ? 'landscape' : 'portrait',
+  });
+}
+
+interface TextBlock {
+  kind: keyof typeof PDF_TEXT;
+  lines: string[];
+  height: number;
+  space: number; // Height plus the gap separating it from the chart
+}
+
+function textBlock(pdf: jsPDF, text: string | undefined, kind: TextBlock['kind'], width: number): TextBlock {
+  const { size, style } = PDF_TEXT[kind];
+  if (!text?.trim()) return { kind, lines: [], height: 0, space: 0 };
+  pdf.setFont('helvetica', style);
+  pdf.setFontSize(size);
+  const lines: string[] = pdf.splitTextToSize(text.trim(), width);
+  const height = lines.length * size * LINE_HEIGHT;
+  return { kind, lines, height, space: height + BLOCK_GAP };
+}
+
+/**
+ * Draw a text block with its top at `y`; returns where the next block starts
+ */
+function drawTextBlock(pdf: jsPDF, block: TextBlock, x: number, y: number): number {
+  if (block.lines.length === 0) return y;
+  const { size, style, color } = PDF_TEXT[block.kind];
+  pdf.setFont('helvetica', style);
+  pdf.setFontSize(size);
+  pdf.setTextColor(color);
+  pdf.text(block.lines, x, y, { baseline: 'top', lineHeightFactor: LINE_HEIGHT });
+  return y + block.space;
+}
@@ -1,4 +1,21 @@
-import type { BuilderState, ChartEditPlan, DataField, EncodingConfig, Operation } from '@/types';
+import type {
+  AnnotationAggregate,
+  AnnotationKind,
+  BuilderState,
+  ChartAnnotation,
+  ChartEditPlan,
+  ConditionChannel,
+  DataField,
+  EncodingChannelName,
+  EncodingConfig,
+  FeatureFlags,
+  MarkType,
+  Operation,
+  ParamType,
+} from '@/types';
+import { isMarkAllowed, isTransformAllowed } from '@/utils/featureFlags';
+import { getFieldType } from '@/utils/fieldInference';
+import { SECONDARY_CHANNELS, adaptEncodingsToMark, createParam, fieldRef } from '@/utils/specBuilder';
 
 function norm(s: string) {
   return s.toLowerCase().trim();
@@ -32,6 +49,14 @@ function resolveField(candidate: string, fieldNames: string[]): string | undefin
   return contains;
 }
 
+// Everyday names for marks
+const MARK_ALIASES: Record<string, MarkType> = {
+  pie: 'arc',
+  donut: 'arc',
+  doughnut: 'arc',
+  choropleth: 'geoshape',
+};
+
 function titleCase(s: string) {
   return s.replace(/\b\w/g, (m) => m.toUpperCase());
 }
@@ -45,12 +70,19 @@ export function parseNLToPlan(input: string, fieldNames: string[], builder: Buil
   const ops: Operation[] = [];
 
   // 1) Mark changes
-  const markMatch = lower.match(/(change to|switch to|make it|set to)?\s*(line|bar|area|point|circle|square|tick|rect|rule|text)\s*(chart)?/);
+  const markMatch = lower.match(
+    /(change to|switch to|make it|set to)?\s*\b(error ?bar|error ?band|box ?plot|line|bar|area|point|circle|square|tick|rect|rule|text|arc|pie|donut|doughnut|trail|image|geoshape|choropleth)\s*(chart|plot)?/
+  );
   if (markMatch) {
+    const name = markMatch[2].replace(' ', '');
+    const mark = MARK_ALIASES[name] ?? (name as MarkType);
     ops.push({
       op: 'set_mark',
-      mark: markMatch[2] as any,
-      options: { point: lower.includes('with points') },
+      mark,
+      options: {
+        point: lower.includes('with points'),
+        ...(/donut|doughnut/.test(markMatch[2]) && { innerRadius: 50 }),
+      },
     });
   }
 
@@ -64,7 +96,7 @@ export function parseNLToPlan(input: string, fieldNames: string[], builder: Buil
   }
 
   // 3) "make West blue and East orange"
-  if (lower.includes('make ')) {
+  if (lower.includes('make ') && !/\b(when|where|if)\b/.test(lower)) {
     const afterMake = lower.split('make ')[1];
     if (afterMake) {
       const pairs = afterMake.split(/\s+and\s+/g).map((s) => s.trim());
@@ -120,8 +152,180 @@ export function parseNLToPlan(input: string, fieldNames: string[], builder: Buil
     ops.push({ op: 'set_color_scheme', scheme: schemeMatch[1] });
   }
 
+  // 9) "facet by Region", "small multiples by Region", "facet rows by Region"
+  const facetMatch = lower.match(/(?:facet|split|small multiples?|panels?)(?:\s+(rows|columns))?\s+(?:by|per)\s+([a-zA-Z0-9_]+)/);
+  if (facetMatch) {
+    const fld = resolveField(facetMatch[2], fieldNames);
+    if (fld) {
+      const channel = facetMatch[1] === 'rows' ? 'row' : facetMatch[1] === 'columns' ? 'column' : 'facet';
+      ops.push({ op: 'set_encoding', channel, field: fld });
+    }
+  }
+
+  // 10) "shape by Region", "label by Sales", "dash by Region", "opacity by Profit"
+  const channelAliases: Record<string, EncodingChannelName> = { dash: 'strokeDash', label: 'text' };
+  for (const channelBy of lower.matchAll(/\b(shape|size|opacity|dash|label|text|detail)\s+(?:by|with)\s+([a-zA-Z0-9_]+)/g)) {
+    const fld = resolveField(channelBy[2], fieldNames);
+    if (fld) {
+      const channel = channelAliases[channelBy[1]] ?? (channelBy[1] as EncodingChannelName);
+      ops.push({ op: 'set_encoding', channel, field: fld });
+    }
+  }
+
+  // 11) Interactions: "click legend entries to highlight series", "brush to select", "zoom", "slider for Sales"
+  const removeInteraction = lower.match(
+    /\b(?:remove|disable|turn off|no)\s+(?:the\s+)?(brush|zoom|pan|legend|click|slider|dropdown|radio|interactivity|interactions?|selections?)\b/
+  );
+  if (removeInteraction) {
+    const types: Record<string, ParamType[]> = {
+      brush: ['brush'],
+      zoom: ['zoom'],
+      pan: ['zoom'],
+      legend: ['legend'],
+      click: ['click'],
+      slider: ['input'],
+      dropdown: ['input'],
+      radio: ['input'],
+    };
+    const removed = types[removeInteraction[1]] ?? ['brush', 'click', 'legend', 'zoom', 'input'];
+    for (const param of builder.params ?? []) {
+      if (removed.includes(param.type)) ops.push({ op: 'remove_param', name: param.name });
+    }
+  } else {
+    const inputMatch = lower.match(
+      /\b(slider|dropdown|drop-down|radio(?: buttons?)?)\s+(?:to\s+(filter|highlight|colou?r)\s+)?(?:by\s+|for\s+|on\s+)?([a-zA-Z0-9_]+)/
+    );
+    const inputField = inputMatch && resolveField(inputMatch[3], fieldNames);
+    // Asking again updates the existing selection of that kind instead of adding another
+    const addParam = (type: ParamType, extra: object = {}) => {
+      const name = builder.params?.find((p) => p.type === type)?.name ?? createParam(type, builder, []).name;
+      ops.push({ op: 'add_param', param: { name, type, ...extra } });
+    };
+
+    if (/\blegend\b/.test(lower) && /\b(click|select|toggle|highlight|filter)/.test(lower)) {
+      addParam('legend', { highlight: true });
+    } else if (/\bclick(?:ing)?\b.*\b(select|highlight)/.test(lower)) {
+      addParam('click', { highlight: true });
+    }
+    if (/\bbrush(?:ing)?\b|\bdrag(?:ging)? to select\b|\bselect (?:a )?range\b/.test(lower)) {
+      addParam('brush', { highlight: true });
+    }
+    if (/\b(zoom|pan)(?:ning|ing|able)?\b/.test(lower)) {
+      addParam('zoom');
+    }
+    if (inputMatch && inputField) {
+      const input = inputMatch[1] === 'slider' ? 'range' : inputMatch[1].startsWith('radio') ? 'radio' : 'select';
+      const name =
+        builder.params?.find((p) => p.type === 'input' && p.field === inputField)?.name ??
+        createParam('input', builder, [], inputField, input).name;
+      ops.push({
+        op: 'add_param',
+        param: {
+          name,
+          type: 'input',
+          input,
+          field: inputField,
+          effect: inputMatch[2] && inputMatch[2] !== 'filter' ? 'color' : 'filter',
+        },
+      });
+    }
+  }
+
+  // 12) Conditional rules: "colour bars red when Profit < 0", "fade points where Sales is below 100"
+  // (matched on the original text so category values keep their casing)
+  const ruleMatch = text.match(
+    /\b(colou?r|make|paint|fade|dim|shrink|enlarge)\s+(?:the\s+)?(?:[a-z]+\s+)??(#[0-9a-f]{3,6}|[a-z]+)?\s*(?:when|where|if)\s+([a-z0-9_]+)\s*(<=|>=|==|!=|<|>|=|is below|is above|is not|is)\s*(-?[\w.]+)/i
+  );
+  const ruleField = ruleMatch && resolveField(ruleMatch[3], fieldNames);
+  if (ruleMatch && ruleField) {
+    const operators: Record<string, string> = { '=': '==', is: '==', 'is not': '!=', 'is below': '<', 'is above': '>' };
+    const operator = operators[norm(ruleMatch[4])] ?? ruleMatch[4];
+    const literal = Number.isFinite(Number(ruleMatch[5])) ? ruleMatch[5] : JSON.stringify(ruleMatch[5]);
+    const test = `${fieldRef(ruleField)} ${operator} ${literal}`;
+
+    const verb = norm(ruleMatch[1]);
+    const rule: { channel: ConditionChannel; value: string | number } | null =
+      verb === 'fade' || verb === 'dim'
+        ? { channel: 'opacity', value: 0.2 }
+        : verb === 'shrink' || verb === 'enlarge'
+          ? { channel: 'size', value: verb === 'shrink' ? 10 : 200 }
+          : ruleMatch[2]
+            ? { channel: 'color', value: colorWordToHex(ruleMatch[2]) }
+            : null;
+    if (rule) {
+      // "colour bars red…" names the marks rather than switching to them
+      const markOp = ops.findIndex((o) => o.op === 'set_mark');
+      if (markOp >= 0 && !markMatch?.[1]) ops.splice(markOp, 1);
+      // Asking again for the same test replaces its rule
+      const existing = (builder.encodings[rule.channel]?.conditions ?? []).filter((c) => c.test !== test);
+      ops.push({ op: 'set_condition', channel: rule.channel, conditions: [...existing, { test, value: rule.value }] });
+    }
+  }
+
+  // 13) Annotations: "add average line", "target line at 500", "shade 2024-01-01 to 2024-03-31",
+  // "add label 'Launch' at 2024-02-01, 300", "remove reference lines"
+  const removeAnnotations = lower.match(
+    /\b(?:remove|clear|delete)\s+(?:all\s+|the\s+)?(annotations|reference lines?|(?:average |mean |median |target )?lines?|bands?|shading|labels|callouts|notes)\b/
+  );
+  const aggregateLine = lower.match(/\b(average|mean|median|min|minimum|max|maximum)\s+(?:reference\s+)?line\b/);
+  const position = '(\\d{4}-[\\d-]+(?:t[\\d:]+)?|-?\\d[\\d.]*)';
+  const valueLine = lower.match(new RegExp(`\\b(target|goal|threshold|reference|baseline)?\\s*line\\s+at\\s+${position}`));
+  const band = lower.match(
+    new RegExp(`\\b(?:shade|band|highlight)\\s+(?:from\\s+|between\\s+)?${position}\\s+(?:to|and|-)\\s+${position}`)
+  );
+  const label = text.match(/\b(?:label|note|callout|annotation|annotate)\s+["'](.+?)["']\s+at\s+([\w.:-]+)\s*(?:,|and)\s*([\w.:-]+)/i);
+  const annotationOps: Operation[] = [];
+  if (removeAnnotations) {
+    const kinds: Record<string, AnnotationKind> = { band: 'band', bands: 'band', shading: 'band', labels: 'text', callouts: 'text', notes: 'text' };
+    const target = removeAnnotations[1];
+    annotationOps.push({ op: 'remove_annotations', kind: target.includes('line') ? 'line' : kinds[target] });
+  } else {
+    // Statistics and bands go on the measure axis; date ranges on the temporal one
+    const measureAxis = builder.encodings.y?.type !== 'quantitative' && builder.encodings.x?.type === 'quantitative' ? 'x' : 'y';
+    const toValue = (v: string) => (Number.isFinite(Number(v)) ? Number(v) : v);
+    const axisFor = (v: string) =>
+      /^\d{4}-\d{2}/.test(v) ? (builder.encodings.y?.type === 'temporal' ? 'y' : 'x') : measureAxis;
+
+    if (aggregateLine) {
+      const aggregates: Record<string, AnnotationAggregate> = { average: 'mean', minimum: 'min', maximum: 'max' };
+      const aggregate = aggregates[aggregateLine[1]] ?? (aggregateLine[1] as AnnotationAggregate);
+      annotationOps.push({
+        op: 'add_annotation',
+        annotation: { kind: 'line', axis: measureAxis, aggregate, text: titleCase(aggregateLine[1]), dashed: true },
+      });
+    } else if (valueLine) {
+      annotationOps.push({
+        op: 'add_annotation',
+        annotation: {
+          kind: 'line',
+          axis: axisFor(valueLine[2]),
+          value: toValue(valueLine[2]),
+          text: valueLine[1] ? titleCase(valueLine[1]) : undefined,
+        },
+      });
+    }
+    if (band) {
+      annotationOps.push({
+        op: 'add_annotation',
+        annotation: { kind: 'band', axis: axisFor(band[1]), start: toValue(band[1]), end: toValue(band[2]) },
+      });
+    }
+    if (label) {
+      annotationOps.push({
+        op: 'add_annotation',
+        annotation: { kind: 'text', text: label[1], x: toValue(label[2]), y: toValue(label[3]) },
+      });
+    }
+  }
+  if (annotationOps.length > 0) {
+    // "add average line" names an annotation, not the line mark
+    const markOp = ops.findIndex((o) => o.op === 'set_mark');
+    if (markOp >= 0 && !markMatch?.[1]) ops.splice(markOp, 1);
+    ops.push(...annotationOps);
+  }
+
   // If user said "lines" (plural) without explicitly changing mark, nudge line mark
-  if (!ops.find((o) => o.op === 'set_mark') && /\blines\b/.test(lower)) {
+  if (!ops.find((o) => o.op === 'set_mark') && annotationOps.length === 0 && /\blines\b/.test(lower)) {
     ops.push({ op: 'set_mark', mark: 'line' });
   }
 
@@ -131,32 +335,82 @@ export function parseNLToPlan(input: string, fieldNames: string[], builder: Buil
   return { intentText: input, confidence, operations: ops };
 }
 
+/**
+ * Throw if a plan would produce marks or transforms the host has disallowed
+ */
+function assertPlanAllowed(plan: ChartEditPlan, features: FeatureFlags) {
+  for (const op of plan.operations) {
+    if (op.op === 'set_mark' && !isMarkAllowed(op.mark, features)) {
+      throw new Error(`The "${op.mark}" mark is not allowed in this widget`);
+    }
+    if (op.op === 'set_top_n' && !isTransformAllowed('topN', features)) {
+      throw new Error('Top N transforms are not allowed in this widget');
+    }
+    // Input controls hide non-matching rows through filter steps unless they only colour them
+    const addsFilter =
+      op.op === 'add_filter' || (op.op === 'add_param' && op.param.type === 'input' && (op.param.effect ?? 'filter') === 'filter');
+    if (addsFilter && !isTransformAllowed('filter', features)) {
+      throw new Error('Filter transforms are not allowed in this widget');
+    }
+    if (op.op === 'add_annotation') {
+      const mark = annotationMarks(op.annotation).find((m) => !isMarkAllowed(m, features));
+      if (mark) throw new Error(`The "${mark}" mark (used by ${op.annotation.kind} annotations) is not allowed in this widget`);
+    }
+  }
+}
+
+/**
+ * Marks an annotation is drawn with (a label adds a text layer)
+ */
+function annotationMarks(annotation: ChartAnnotation): MarkType[] {
+  const mark: MarkType = annotation.kind === 'line' ? 'rule' : annotation.kind === 'band' ? 'rect' : 'text';
+  return annotation.text ? [mark, 'text'] : [mark];
+}
+
 /**
  * Apply a ChartEditPlan to a BuilderState
  */
-export function applyPlan(builder: BuilderState, plan: ChartEditPlan, dataFields: DataField[]): BuilderState {
+export function applyPlan(
+  builder: BuilderState,
+  plan: ChartEditPlan,
+  dataFields: DataField[],
+  features?: FeatureFlags
+): BuilderState {
+  if (features) {
+    assertPlanAllowed(plan, features);
+  }
+
   let next = JSON.parse(JSON.stringify(builder)) as BuilderState;
 
-  const getType = (field: string): EncodingConfig['type'] | undefined =>
-    dataFields.find((f) => f.name === field)?.inferredType;
+  const getType = (field: string): EncodingConfig['type'] | undefined => {
+    const info = dataFields.find((f) => f.name === field);
+    return info ? getFieldType(info) : undefined;
+  };
 
   for (const op of plan.operations) {
     switch (op.op) {
       case 'set_mark': {
-        next.mark.type = op.mark;
-        if (op.options?.point !== undefined) next.mark.point = op.options.point;
-        if (op.options?.stacked !== undefined) next.mark.stacked = op.options.stacked;
+        next.encodings = adaptEncodingsToMark(next.encodings, next.mark.type, op.mark);
+        next.mark = { ...next.mark, ...op.options, type: op.mark };
         break;
       }
 
       case 'set_encoding': {
-        const t = op.type ?? getType(op.field);
+        // Range ends (x2/y2) take their type from the primary channel
+        const t = SECONDARY_CHANNELS.includes(op.channel) ? undefined : op.type ?? getType(op.field);
         next.encodings[op.channel] = {
           ...(next.encodings[op.channel] ?? {}),
           field: op.field,
           type: t,
           ...op.config,
         };
+        // A wrapped facet and a row/column grid can't be combined
+        if (op.channel === 'facet') {
+          next.encodings.row = undefined;
+          next.encodings.column = undefined;
+        } else if (op.channel === 'row' || op.channel === 'column') {
+          next.encodings.facet = undefined;
+        }
         break;
       }
 
@@ -168,7 +422,7 @@ export function applyPlan(builder: BuilderState, plan: ChartEditPlan, dataFields
       case 'set_series_colors': {
         // Ensure color encoding exists
         if (!next.encodings.color || !next.encodings.color.field) {
-          const nominal = dataFields.find((f) => f.inferredType === 'nominal');
+          const nominal = dataFields.find((f) => getFieldType(f) === 'nominal');
           if (nominal) {
             next.encodings.color = { field: nominal.name, type: 'nominal' };
           } else if (dataFields[0]) {
@@ -190,7 +444,7 @@ export function applyPlan(builder: BuilderState, plan: ChartEditPlan, dataFields
       case 'set_color_scheme': {
         if (!next.encodings.color) {
           // Try to set color to a nominal field
-          const nominal = dataFields.find((f) => f.inferredType === 'nominal');
+          const nominal = dataFields.find((f) => getFieldType(f) === 'nominal');
           if (nominal) {
             next.encodings.color = { field: nominal.name, type: 'nominal' };
           }
@@ -249,6 +503,43 @@ export function applyPlan(builder: BuilderState, plan: ChartEditPlan, dataFields
         break;
       }
 
+      case 'add_param': {
+        // Fill in what the plan left out (ranges, options, names) from the data; same-name params are replaced
+        const param = {
+          ...createParam(op.param.type, next, dataFields, op.param.field, op.param.input),
+          ...op.param,
+        };
+        next.params = [...(next.params ?? []).filter((p) => p.name !== param.name), param];
+        break;
+      }
+
+      case 'remove_param': {
+        next.params = (next.params ?? []).filter((p) => p.name !== op.name);
+        break;
+      }
+
+      case 'add_annotation': {
+        next.annotations = [...(next.annotations ?? []), op.annotation];
+        break;
+      }
+
+      case 'remove_annotations': {
+        next.annotations = op.kind ? (next.annotations ?? []).filter((a) => a.kind !== op.kind) : [];
+        break;
+      }
+
+      case 'set_condition': {
+        // Rules replace the channel's current ones; a channel left with no field and no rules is removed
+        const current = next.encodings[op.channel];
+        const updated = {
+          ...(current ?? {}),
+          conditions: op.conditions.length > 0 ? op.conditions : undefined,
+          ...(op.value !== undefined && { value: op.value }),
+        };
+        next.encodings[op.channel] = updated.field || updated.conditions ? updated : undefined;
+        break;
+      }
+
       case 'set_title': {
         next.title = op.title;
         break;
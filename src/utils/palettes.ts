@@ -0,0 +1,175 @@
+import { scheme } from 'vega';
+import type { FieldType, PaletteKind } from '@/types';
+
+/**
+ * Vega color schemes offered in the palette editor, by kind
+ */
+export const COLOR_SCHEMES: Record<PaletteKind, string[]> = {
+  categorical: ['tableau10', 'category10', 'set2', 'dark2', 'paired', 'set1', 'accent', 'tableau20'],
+  sequential: ['blues', 'greens', 'oranges', 'reds', 'purples', 'greys', 'viridis', 'cividis', 'plasma', 'teals'],
+  diverging: ['redblue', 'blueorange', 'redyellowblue', 'redyellowgreen', 'purplegreen', 'brownbluegreen', 'spectral'],
+};
+
+// Below these, colours are hard to tell apart (CIE76 ΔE) or to see against the background (WCAG 1.4.11)
+const MIN_DISTINCT_DELTA_E = 10;
+const MIN_CONTRAST = 3;
+
+// Machado et al. (2009) simulation matrices at full severity, applied to linear RGB
+const COLOR_VISION_DEFICIENCIES: { name: string; matrix: number[] }[] = [
+  {
+    name: 'protanopia',
+    matrix: [0.152286, 1.052583, -0.204868, 0.114503, 0.786281, 0.099216, -0.003882, -0.048116, 1.051998],
+  },
+  {
+    name: 'deuteranopia',
+    matrix: [0.367322, 0.860646, -0.227968, 0.280085, 0.672501, 0.047413, -0.01182, 0.04294, 0.968881],
+  },
+  {
+    name: 'tritanopia',
+    matrix: [1.255528, -0.076749, -0.178779, -0.078411, 0.930809, 0.147602, 0.004733, 0.691367, 0.3039],
+  },
+];
+
+export interface PaletteWarning {
+  kind: 'colorblind' | 'contrast';
+  message: string;
+  colors: string[];
+}
+
+export function schemeKind(name: string | undefined): PaletteKind | undefined {
+  return (Object.keys(COLOR_SCHEMES) as PaletteKind[]).find((kind) => name && COLOR_SCHEMES[kind].includes(name));
+}
+
+/**
+ * Default palette kind for a field on the color channel
+ */
+export function paletteKindFor(type: FieldType | undefined): PaletteKind {
+  return type === 'quantitative' || type === 'temporal' ? 'sequential' : 'categorical';
+}
+
+/**
+ * Colors of a scheme as hex: the first `count` of a categorical one, or `count` evenly spaced samples
+ * of a continuous one
+ */
+export function schemeColors(name: string, count = 10): string[] {
+  const colors = scheme(name) as string[] | ((t: number) => string) | undefined;
+  if (!colors) return [];
+  if (Array.isArray(colors)) return colors.slice(0, count);
+  return Array.from({ length: count }, (_, i) => toHex(colors(count === 1 ? 0.5 : i / (count - 1))));
+}
+
+/**
+ * Accessibility problems with a palette: colours that look alike under a colour vision deficiency, and
+ * (for categorical palettes, where each colour marks a group) colours too faint against the background.
+ * Continuous palettes only need their ends to stay apart.
+ */
+export function checkPalette(colors: string[], kind: PaletteKind, background = '#ffffff'): PaletteWarning[] {
+  const parsed = colors.map((c) => ({ color: c, rgb: parseColor(c) })).filter((c) => c.rgb) as {
+    color: string;
+    rgb: RGB;
+  }[];
+  const warnings: PaletteWarning[] = [];
+
+  const compared = kind === 'categorical' ? parsed : [parsed[0], parsed[parsed.length - 1]].filter(Boolean);
+  for (const { name, matrix } of COLOR_VISION_DEFICIENCIES) {
+    const alike: string[][] = [];
+    for (let i = 0; i < compared.length; i++) {
+      for (let j = i + 1; j < compared.length; j++) {
+        const a = compared[i].rgb;
+        const b = compared[j].rgb;
+        // Only pairs that are distinct with typical vision; identical colours are a deliberate choice
+        if (deltaE(a, b) < MIN_DISTINCT_DELTA_E) continue;
+        if (deltaE(simulate(a, matrix), simulate(b, matrix)) < MIN_DISTINCT_DELTA_E) {
+          alike.push([compared[i].color, compared[j].color]);
+        }
+      }
+    }
+    if (alike.length > 0) {
+      const pairs = alike.slice(0, 3).map(([a, b]) => `${a} / ${b}`);
+      warnings.push({
+        kind: 'colorblind',
+        message: `Hard to tell apart with ${name}: ${pairs.join(', ')}${alike.length > 3 ? ` (+${alike.length - 3} more)` : ''}`,
+        colors: [...new Set(alike.flat())],
+      });
+    }
+  }
+
+  const backgroundRgb = parseColor(background);
+  if (kind === 'categorical' && backgroundRgb) {
+    const faint = parsed.filter(({ rgb }) => contrastRatio(rgb, backgroundRgb) < MIN_CONTRAST);
+    if (faint.length > 0) {
+      warnings.push({
+        kind: 'contrast',
+        message: `Low contrast against the background (below ${MIN_CONTRAST}:1): ${faint
+          .map(({ color, rgb }) => `${color} (${contrastRatio(rgb, backgroundRgb).toFixed(1)}:1)`)
+          .join(', ')}`,
+        colors: faint.map(({ color }) => color),
+      });
+    }
+  }
+
+  return warnings;
+}
+
+type RGB = [number, number, number]; // 0-255
+
+/**
+ * Parse #rgb, #rrggbb and rgb(r, g, b); other CSS colours aren't checked
+ */
+function parseColor(color: string): RGB | null {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join('') : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as RGB;
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null;
+}
+
+function toHex(color: string): string {
+  const rgb = parseColor(color);
+  return rgb ? `#${rgb.map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}` : color;
+}
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(value: number): number {
+  const v = Math.min(1, Math.max(0, value));
+  return 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+}
+
+function simulate(rgb: RGB, m: number[]): RGB {
+  const [r, g, b] = rgb.map(toLinear);
+  return [m[0] * r + m[1] * g + m[2] * b, m[3] * r + m[4] * g + m[5] * b, m[6] * r + m[7] * g + m[8] * b].map(
+    fromLinear
+  ) as RGB;
+}
+
+function relativeLuminance(rgb: RGB): number {
+  const [r, g, b] = rgb.map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrastRatio(a: RGB, b: RGB): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function toLab(rgb: RGB): [number, number, number] {
+  const [r, g, b] = rgb.map(toLinear);
+  // sRGB -> XYZ (D65), normalised by the white point
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+function deltaE(a: RGB, b: RGB): number {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
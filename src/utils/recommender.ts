@@ -0,0 +1,255 @@
+import type { ChartRecommendation, DataField, FeatureFlags } from '@/types';
+import { isMarkAllowed } from '@/utils/featureFlags';
+import { getFieldType } from '@/utils/fieldInference';
+
+// Categories beyond these get hard to tell apart as colours / slices
+const MAX_SERIES = 8;
+const MAX_SLICES = 6;
+// Bars switch to horizontal past this many categories so the labels stay readable
+const MAX_VERTICAL_BARS = 10;
+const MAX_CATEGORIES = 50;
+
+interface FieldRoles {
+  times: string[];
+  measures: string[];
+  categories: string[]; // Fewest distinct values first
+}
+
+/**
+ * Sort fields into the roles charts are built from. Constant measures and ID-like categories
+ * (nearly every value distinct) are left out since they don't chart well.
+ */
+function classifyFields(fields: DataField[]): FieldRoles {
+  const roles: FieldRoles = { times: [], measures: [], categories: [] };
+  const categories: DataField[] = [];
+
+  for (const field of fields) {
+    const unique = field.stats?.unique;
+    const count = field.stats?.count;
+    switch (getFieldType(field)) {
+      case 'temporal':
+        if (unique !== 1) roles.times.push(field.name);
+        break;
+      case 'quantitative':
+        if (unique !== 1) roles.measures.push(field.name);
+        break;
+      default: {
+        const idLike = unique !== undefined && count !== undefined && count > 20 && unique > count * 0.9;
+        if (unique === undefined || (unique > 1 && unique <= MAX_CATEGORIES && !idLike)) categories.push(field);
+      }
+    }
+  }
+
+  roles.categories = categories
+    .sort((a, b) => (a.stats?.unique ?? MAX_CATEGORIES) - (b.stats?.unique ?? MAX_CATEGORIES))
+    .map((f) => f.name);
+  return roles;
+}
+
+function uniqueCount(fields: DataField[], name: string): number {
+  return fields.find((f) => f.name === name)?.stats?.unique ?? MAX_CATEGORIES;
+}
+
+/**
+ * Rank a handful of charts that suit the data's field types and stats: a measure over time becomes a line,
+ * a measure by category a sorted bar, two measures a scatter and so on.
+ *
+ * With `focus`, only those fields are considered ("pick fields to compare") and charts using more of them
+ * rank first. With `features`, charts whose mark isn't in `allowedMarks` are left out.
+ */
+export function recommendCharts(
+  dataFields: DataField[],
+  options: { focus?: string[]; limit?: number; features?: FeatureFlags } = {}
+): ChartRecommendation[] {
+  const { focus, limit = 6, features } = options;
+  const fields = focus?.length ? dataFields.filter((f) => focus.includes(f.name)) : dataFields;
+  const { times, measures, categories } = classifyFields(fields);
+  const [time] = times;
+  const [measure, secondMeasure] = measures;
+  const [category, secondCategory] = categories;
+  const series = categories.find((c) => uniqueCount(fields, c) <= MAX_SERIES);
+  // A series other than the bars' own categories
+  const barSeries = categories.find((c) => c !== category && uniqueCount(fields, c) <= MAX_SERIES);
+
+  const candidates: ChartRecommendation[] = [];
+  const add = (candidate: ChartRecommendation) => candidates.push(candidate);
+
+  if (time && measure) {
+    add({
+      id: 'line',
+      title: `${measure} over ${time}`,
+      reason: 'Trend of a measure over time',
+      score: 0.95,
+      fields: [time, measure],
+      chart: {
+        mark: { type: 'line', point: true },
+        encodings: { x: { field: time }, y: { field: measure, aggregate: 'sum' } },
+      },
+    });
+    if (series) {
+      add({
+        id: 'line-series',
+        title: `${measure} over ${time} by ${series}`,
+        reason: 'Trends compared across a few series',
+        score: 0.85,
+        fields: [time, measure, series],
+        chart: {
+          mark: { type: 'line', point: true },
+          encodings: {
+            x: { field: time },
+            y: { field: measure, aggregate: 'sum' },
+            color: { field: series },
+          },
+        },
+      });
+    }
+  }
+
+  if (category && measure) {
+    const horizontal = uniqueCount(fields, category) > MAX_VERTICAL_BARS;
+    const sortedCategory = { field: category, sort: { field: measure, order: 'descending' as const } };
+    const total = { field: measure, aggregate: 'sum' as const };
+    add({
+      id: 'bar',
+      title: `${measure} by ${category}`,
+      reason: 'Categories ranked by a measure',
+      score: 0.9,
+      fields: [category, measure],
+      chart: {
+        mark: { type: 'bar', stacked: null },
+        encodings: horizontal ? { y: sortedCategory, x: total } : { x: sortedCategory, y: total },
+      },
+    });
+    if (barSeries) {
+      add({
+        id: 'stacked-bar',
+        title: `${measure} by ${category} and ${barSeries}`,
+        reason: 'Totals per category split into their parts',
+        score: 0.7,
+        fields: [category, measure, barSeries],
+        chart: {
+          mark: { type: 'bar', stacked: 'zero' },
+          encodings: horizontal
+            ? { y: sortedCategory, x: total, color: { field: barSeries } }
+            : { x: sortedCategory, y: total, color: { field: barSeries } },
+        },
+      });
+    }
+    if (uniqueCount(fields, category) <= MAX_SLICES) {
+      add({
+        id: 'donut',
+        title: `Share of ${measure} by ${category}`,
+        reason: 'Parts of a whole, for a few categories',
+        score: 0.6,
+        fields: [category, measure],
+        chart: {
+          mark: { type: 'arc', innerRadius: 50 },
+          encodings: { theta: { field: measure, aggregate: 'sum' }, color: { field: category } },
+        },
+      });
+    }
+  }
+
+  if (measure && secondMeasure) {
+    add({
+      id: 'scatter',
+      title: `${secondMeasure} vs ${measure}`,
+      reason: 'Relationship between two measures',
+      score: 0.8,
+      fields: [measure, secondMeasure],
+      chart: {
+        mark: { type: 'point', opacity: 0.7 },
+        encodings: { x: { field: measure }, y: { field: secondMeasure } },
+      },
+    });
+    if (series) {
+      add({
+        id: 'scatter-series',
+        title: `${secondMeasure} vs ${measure} by ${series}`,
+        reason: 'Relationship between two measures, per group',
+        score: 0.65,
+        fields: [measure, secondMeasure, series],
+        chart: {
+          mark: { type: 'point', opacity: 0.7 },
+          encodings: { x: { field: measure }, y: { field: secondMeasure }, color: { field: series } },
+        },
+      });
+    }
+  }
+
+  if (category && secondCategory) {
+    add({
+      id: 'heatmap',
+      title: `${category} by ${secondCategory}`,
+      reason: 'How often each pair of categories occurs',
+      score: 0.45,
+      fields: [category, secondCategory],
+      chart: {
+        mark: { type: 'rect' },
+        encodings: {
+          x: { field: category },
+          y: { field: secondCategory },
+          color: { field: category, type: 'quantitative', aggregate: 'count' },
+        },
+      },
+    });
+  }
+
+  if (measure) {
+    add({
+      id: 'histogram',
+      title: `Distribution of ${measure}`,
+      reason: 'Spread and skew of a measure',
+      score: 0.55,
+      fields: [measure],
+      chart: {
+        mark: { type: 'bar', stacked: null },
+        encodings: {
+          x: { field: measure, bin: { maxbins: 20 } },
+          y: { field: measure, type: 'quantitative', aggregate: 'count' },
+        },
+      },
+    });
+  }
+
+  if (category) {
+    add({
+      id: 'count-bar',
+      title: `Rows by ${category}`,
+      reason: 'How often each category occurs',
+      score: 0.5,
+      fields: [category],
+      chart: {
+        mark: { type: 'bar', stacked: null },
+        encodings: {
+          x: { field: category },
+          y: { field: category, type: 'quantitative', aggregate: 'count' },
+        },
+      },
+    });
+  }
+
+  if (time && !measure) {
+    add({
+      id: 'count-over-time',
+      title: `Rows over ${time}`,
+      reason: 'How many records fall in each period',
+      score: 0.5,
+      fields: [time],
+      chart: {
+        mark: { type: 'bar', stacked: null },
+        encodings: {
+          x: { field: time, timeUnit: 'yearmonth' },
+          y: { field: time, type: 'quantitative', aggregate: 'count' },
+        },
+      },
+    });
+  }
+
+  // In compare mode, charts showing more of the picked fields come first
+  const coverage = (c: ChartRecommendation) => (focus?.length ? c.fields.length : 0);
+  return candidates
+    .filter((c) => !features || !c.chart.mark || isMarkAllowed(c.chart.mark.type, features))
+    .sort((a, b) => coverage(b) - coverage(a) || b.score - a.score)
+    .slice(0, limit);
+}
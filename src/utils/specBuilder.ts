@@ -1,41 +1,120 @@
 import type { VisualizationSpec } from 'vega-embed';
-import type { BuilderState, DataField, ChartTransform } from '@/types';
+import type {
+  AnnotationKind,
+  BuilderState,
+  ChartAnnotation,
+  ChartLayer,
+  ChartParam,
+  DataField,
+  ChartTransform,
+  ConditionChannel,
+  EncodingChannelName,
+  EncodingCondition,
+  EncodingConfig,
+  FacetChannel,
+  FieldFormat,
+  InputControl,
+  LayerChannel,
+  MarkConfig,
+  MarkType,
+  ParamType,
+  SharedLayerChannel,
+  SpecOverrides,
+} from '@/types';
+import { FORMAT_TYPES, getFieldType } from '@/utils/fieldInference';
+import { DEFAULT_THEME } from '@/utils/themes';
+
+// Per-mark channels in the order they're emitted (facet channels and tooltips are handled separately)
+export const MARK_CHANNELS = [
+  'x',
+  'y',
+  'color',
+  'size',
+  'x2',
+  'y2',
+  'theta',
+  'radius',
+  'shape',
+  'opacity',
+  'strokeDash',
+  'text',
+  'detail',
+  'order',
+  'href',
+  'url',
+] as const satisfies readonly EncodingChannelName[];
+
+// Range ends share the scale of their primary channel, so they take no type or scale/axis options
+export const SECONDARY_CHANNELS: EncodingChannelName[] = ['x2', 'y2'];
+
+// Channels an extra layer can set; everything else comes from the main encodings
+export const LAYER_CHANNELS: LayerChannel[] = ['y', 'y2', 'color', 'size', 'opacity', 'text'];
+
+// Channels every chart layer of a layered spec repeats (annotation layers draw from their own rows, so
+// they can't inherit these from the top level)
+export const SHARED_LAYER_CHANNELS = ['x', 'tooltip'];
+
+// Small-multiple channels; a layered chart can't carry them in its encoding, so it's wrapped in a facet spec
+export const FACET_CHANNELS: FacetChannel[] = ['row', 'column', 'facet'];
+
+// Keys of a faceted layered chart that belong to the repeated inner view rather than the facet spec
+export const FACET_INNER_KEYS = ['layer', 'width', 'height', 'projection'];
+
+// Composite marks expand into several marks; their schema has no `tooltip` option
+export const COMPOSITE_MARKS: MarkType[] = ['boxplot', 'errorbar', 'errorband'];
+
+// Channels that accept conditional rules (they can also be set by rules alone, without a field)
+export const CONDITION_CHANNELS: ConditionChannel[] = ['color', 'opacity', 'size'];
+
+// Marks outside a highlighting selection fade; marks not matching a colour input turn grey
+const FADED_OPACITY = 0.2;
+const UNMATCHED_COLOR = 'lightgray';
+const DEFAULT_MATCH_COLOR = '#e45756';
+
+// Annotations use fixed colours so they read as chart furniture rather than data
+const ANNOTATION_COLORS: Record<AnnotationKind, string> = { line: '#666666', band: '#f2cf5b', text: '#333333' };
+const BAND_OPACITY = 0.25;
+// Annotations that don't depend on the data are drawn once, from a single empty row
+const SINGLE_ROW = { values: [{}] };
 
 /**
  * Build a Vega-Lite spec from BuilderState
  */
 export function buildSpec(state: BuilderState, fields: DataField[]): VisualizationSpec {
-  // Build transforms
-  const transforms: any[] = buildTransforms(state.transforms);
+  // Selections and input controls (legend selections need a field to bind to)
+  const params = (state.params ?? []).filter((p) => buildParam(p, state.encodings.color?.field));
+
+  // Build transforms (formatted fields are converted first so every later step sees real values;
+  // input controls filter the source rows before the user's own steps)
+  const transforms: any[] = [
+    ...buildFormatTransforms(fields),
+    ...buildParamFilters(params),
+    ...buildTransforms(state.transforms),
+  ];
 
   // Build encoding
   const encoding: any = {};
 
-  // X encoding
-  if (state.encodings.x?.field) {
-    encoding.x = buildEncodingChannel(state.encodings.x);
-  }
-
-  // Y encoding
-  if (state.encodings.y?.field) {
-    encoding.y = buildEncodingChannel(state.encodings.y);
-  }
-
-  // Color encoding
-  if (state.encodings.color?.field) {
-    encoding.color = buildEncodingChannel(state.encodings.color);
+  // Mark channels (position, color, size and the rest)
+  for (const channel of MARK_CHANNELS) {
+    if (isChannelSet(state.encodings[channel])) {
+      encoding[channel] = buildEncodingChannel(state.encodings[channel], channel);
+    }
   }
 
-  // Size encoding
-  if (state.encodings.size?.field) {
-    encoding.size = buildEncodingChannel(state.encodings.size);
+  // Facet encodings: a wrapped facet replaces the row/column grid (Vega-Lite can't combine them)
+  const facetChannels: FacetChannel[] = state.encodings.facet?.field ? ['facet'] : ['row', 'column'];
+  for (const channel of facetChannels) {
+    if (state.encodings[channel]?.field) {
+      encoding[channel] = buildEncodingChannel(state.encodings[channel]);
+    }
   }
 
   // Tooltip encoding
   if (state.encodings.tooltip === 'auto') {
     encoding.tooltip = fields.slice(0, 6).map((f) => ({
       field: f.name,
-      type: f.inferredType,
+      type: getFieldType(f),
     }));
   } else if (Array.isArray(state.encodings.tooltip)) {
     encoding.tooltip = state.encodings.tooltip.map((t) => ({
@@ -46,31 +125,11 @@ export function buildSpec(state: BuilderState, fields: DataField[]): Visualizati
     }));
   }
 
-  // Build mark
-  const mark: any = {
-    type: state.mark.type,
-    tooltip: true,
-  };
-
-  if (state.mark.point !== undefined) {
-    mark.point = state.mark.point;
-  }
-
-  if (state.mark.opacity !== undefined) {
-    mark.opacity = state.mark.opacity;
-  }
-
-  if (state.mark.size !== undefined) {
-    mark.size = state.mark.size;
-  }
-
-  if (state.mark.strokeWidth !== undefined) {
-    mark.strokeWidth = state.mark.strokeWidth;
-  }
+  // Highlighting selections and colour inputs add conditional opacity/colour
+  applyParamEffects(encoding, params);
 
-  if (state.mark.interpolate && (state.mark.type === 'line' || state.mark.type === 'area')) {
-    mark.interpolate = state.mark.interpolate;
-  }
+  // Build mark
+  const mark = buildMark(state.mark);
 
   // Build the spec
   const spec: VisualizationSpec = {
@@ -80,16 +139,8 @@ export function buildSpec(state: BuilderState, fields: DataField[]): Visualizati
     data: { name: 'table' },
     mark,
     encoding,
-    config: {
-      view: {
-        continuousWidth: state.width === 'container' ? undefined : 400,
-        continuousHeight: state.height === 'container' ? undefined : 300,
-      },
-      axis: {
-        labelFontSize: 11,
-        titleFontSize: 12,
-      },
-    },
+    // Copied: overrides are merged into the spec in place
+    config: clone((state.theme ?? DEFAULT_THEME).config),
   };
 
   // Add transforms if any
@@ -97,9 +148,9 @@ export function buildSpec(state: BuilderState, fields: DataField[]): Visualizati
     spec.transform = transforms;
   }
 
-  // Add title if specified
+  // Add title if specified (object form when there's a subtitle)
   if (state.title) {
-    spec.title = state.title;
+    spec.title = state.subtitle ? { text: state.title, subtitle: state.subtitle } : state.title;
   }
 
   // Add description if specified
@@ -118,20 +169,400 @@ export function buildSpec(state: BuilderState, fields: DataField[]): Visualizati
   }
 
   // Handle stacking for bar/area marks
-  if (state.mark.stacked && (state.mark.type === 'bar' || state.mark.type === 'area')) {
+  applyStacking(state.mark, encoding);
+
+  // Map projection for geoshape marks
+  if (state.mark.type === 'geoshape' && state.mark.projection) {
+    (spec as any).projection = { type: state.mark.projection };
+  }
+
+  const annotationLayers = (state.annotations ?? []).flatMap((a) => buildAnnotationLayers(a, state.encodings));
+  const hasLayers = !!state.layers?.length || annotationLayers.length > 0;
+  const hasFacets = facetChannels.some((channel) => encoding[channel]);
+
+  // Selections belong to the main view (the first layer when layered); input controls to the whole chart
+  const selectionParams = params.filter((p) => p.type !== 'input').map((p) => buildParam(p, state.encodings.color?.field));
+  const inputParams = params.filter((p) => p.type === 'input').map((p) => buildParam(p));
+  const topLevelParams = hasLayers ? inputParams : [...selectionParams, ...inputParams];
+  if (topLevelParams.length > 0) {
+    (spec as any).params = topLevelParams;
+  }
+
+  // Layered chart: the main mark becomes the first layer; every chart layer repeats x and tooltips,
+  // and facets stay in the top-level encoding until the facet spec is wrapped around the layers
+  if (hasLayers) {
+    const layered = spec as any;
+    const topLevel: any = {};
+    const mainEncoding: any = {};
+    for (const [channel, def] of Object.entries(encoding)) {
+      (FACET_CHANNELS.includes(channel as FacetChannel) ? topLevel : mainEncoding)[channel] = def;
+    }
+    const shared = Object.fromEntries(
+      Object.entries(mainEncoding).filter(([channel]) => SHARED_LAYER_CHANNELS.includes(channel))
+    );
+    if (Object.keys(topLevel).length > 0) {
+      layered.encoding = topLevel;
+    } else {
+      delete layered.encoding;
+    }
+    const main: any = { mark, encoding: mainEncoding };
+    if (selectionParams.length > 0) main.params = selectionParams;
+    layered.layer = [main, ...(state.layers ?? []).map((layer) => buildLayer(layer, shared)), ...annotationLayers];
+    delete layered.mark;
+  }
+
+  // Scale resolution across layers (y only) and facet panels
+  const resolveScale: any = {};
+  if (hasFacets && state.resolveX === 'independent') {
+    resolveScale.x = 'independent';
+  }
+  if ((state.layers?.length || hasFacets) && state.resolveY === 'independent') {
+    resolveScale.y = 'independent';
+  }
+  if (Object.keys(resolveScale).length > 0) {
+    (spec as any).resolve = { scale: resolveScale };
+  }
+
+  // Parts of a loaded spec the builder doesn't model
+  if (state.overrides) {
+    applyOverrides(spec, state.overrides, 1 + (state.layers?.length ?? 0));
+  }
+
+  // Faceted layers: the facet spec repeats the layers, which resolve y among themselves as well
+  if (hasLayers && hasFacets) {
+    const layerResolve = state.layers?.length && state.resolveY === 'independent' ? { scale: { y: 'independent' } } : undefined;
+    return toFacetSpec(spec, layerResolve);
+  }
+
+  return spec;
+}
+
+/**
+ * Wrap a layered spec whose top-level encoding holds facet channels in a facet spec
+ * (`{ facet, spec: { layer } }`); the wrapped facet's `columns` moves to the facet spec
+ */
+export function toFacetSpec(spec: any, layerResolve?: Record<string, any>): any {
+  const { encoding = {}, ...rest } = spec;
+  const outer = Object.fromEntries(Object.entries(rest).filter(([key]) => !FACET_INNER_KEYS.includes(key)));
+  const inner = Object.fromEntries(Object.entries(rest).filter(([key]) => FACET_INNER_KEYS.includes(key)));
+  if (layerResolve) inner.resolve = layerResolve;
+
+  const { columns, ...wrapped } = encoding.facet ?? {};
+  const facet = encoding.facet
+    ? wrapped
+    : Object.fromEntries(['row', 'column'].filter((channel) => encoding[channel]).map((channel) => [channel, encoding[channel]]));
+  const { resolve, ...facetSpec } = outer;
+  return {
+    ...facetSpec,
+    facet,
+    ...(columns !== undefined && { columns }),
+    spec: inner,
+    ...(resolve !== undefined && { resolve }),
+  };
+}
+
+/**
+ * Merge passthrough overrides into a built spec. Overrides win over builder defaults, but fragments of
+ * builder-managed values (a channel's extra axis options, title styling) only apply while the builder
+ * still emits that value. Shared channels of a layered spec are merged into each of its `chartLayerCount`
+ * chart layers, which all repeat them.
+ */
+function applyOverrides(spec: any, overrides: SpecOverrides, chartLayerCount: number): void {
+  const { mark, encoding, layer, title, ...rest } = overrides;
+  mergeInto(spec, rest);
+
+  if (isPlainObject(title) && spec.title !== undefined) {
+    spec.title = mergeInto(typeof spec.title === 'string' ? { text: spec.title } : spec.title, title);
+  }
+
+  if (Array.isArray(spec.layer)) {
+    const main = spec.layer[0];
+    if (mark) mergeInto(main.mark, mark);
+    for (const [channel, def] of Object.entries(encoding ?? {})) {
+      const targets = FACET_CHANNELS.includes(channel as FacetChannel)
+        ? [spec]
+        : SHARED_LAYER_CHANNELS.includes(channel)
+          ? spec.layer.slice(0, chartLayerCount).filter((target: any, i: number) => i === 0 || target.encoding?.[channel])
+          : [main];
+      for (const target of targets) {
+        target.encoding = mergeChannel(target.encoding ?? {}, channel, def);
+      }
+    }
+    layer?.forEach((layerOverrides, i) => {
+      if (spec.layer[i]) mergeLayer(spec.layer[i], layerOverrides);
+    });
+  } else {
+    if (mark) mergeInto(spec.mark, mark);
+    for (const [channel, def] of Object.entries(encoding ?? {})) {
+      spec.encoding = mergeChannel(spec.encoding ?? {}, channel, def);
+    }
+    // The main layer's own keys (params, name...) move up when the chart is no longer layered
+    if (layer?.[0]) mergeLayer(spec, layer[0]);
+  }
+}
+
+function mergeLayer(target: any, overrides: Record<string, any>): void {
+  const { mark, encoding, ...rest } = overrides;
+  mergeInto(target, rest);
+  if (mark) mergeInto(target.mark, mark);
+  for (const [channel, def] of Object.entries(encoding ?? {})) {
+    target.encoding = mergeChannel(target.encoding ?? {}, channel, def);
+  }
+}
+
+function mergeChannel(encoding: any, channel: string, def: any): any {
+  if (isPlainObject(encoding[channel]) && isPlainObject(def)) {
+    mergeInto(encoding[channel], def);
+  } else if (encoding[channel] === undefined && isStandaloneChannelDef(def)) {
+    encoding[channel] = clone(def);
+  }
+  return encoding;
+}
+
+function mergeInto(target: any, source: Record<string, any>): any {
+  for (const [key, value] of Object.entries(source)) {
+    if (key === 'params' && Array.isArray(value) && Array.isArray(target.params)) {
+      // Kept params sit alongside the ones the builder emits
+      target.params = [...target.params, ...clone(value)];
+    } else if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = clone(value);
+    }
+  }
+  return target;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether an encoding override is a complete channel definition rather than extra options for a
+ * channel the builder emits (builder-managed keys like `field` are never kept as overrides)
+ */
+export function isStandaloneChannelDef(def: any): boolean {
+  return def === null || Array.isArray(def) || (isPlainObject(def) && ['field', 'value', 'datum', 'aggregate'].some((key) => key in def));
+}
+
+/**
+ * Build a Vega-Lite mark definition from MarkConfig
+ */
+function buildMark(config: MarkConfig): any {
+  const mark: any = { type: config.type };
+  if (!COMPOSITE_MARKS.includes(config.type)) {
+    mark.tooltip = true;
+  }
+
+  if (config.point !== undefined) {
+    mark.point = config.point;
+  }
+
+  if (config.opacity !== undefined) {
+    mark.opacity = config.opacity;
+  }
+
+  if (config.size !== undefined) {
+    mark.size = config.size;
+  }
+
+  if (config.strokeWidth !== undefined) {
+    mark.strokeWidth = config.strokeWidth;
+  }
+
+  if (config.interpolate && ['line', 'area', 'trail', 'errorband'].includes(config.type)) {
+    mark.interpolate = config.interpolate;
+  }
+
+  if (config.type === 'arc') {
+    if (config.innerRadius !== undefined) mark.innerRadius = config.innerRadius;
+    if (config.padAngle !== undefined) mark.padAngle = config.padAngle;
+  }
+
+  if (config.cornerRadius !== undefined && ['arc', 'bar', 'rect'].includes(config.type)) {
+    mark.cornerRadius = config.cornerRadius;
+  }
+
+  if (config.extent !== undefined && COMPOSITE_MARKS.includes(config.type)) {
+    mark.extent = config.extent;
+  }
+
+  if (config.type === 'image') {
+    if (config.width !== undefined) mark.width = config.width;
+    if (config.height !== undefined) mark.height = config.height;
+  }
+
+  return mark;
+}
+
+/**
+ * Stack the quantitative channel of bar/area marks
+ */
+function applyStacking(config: MarkConfig, encoding: any): void {
+  if (config.stacked && (config.type === 'bar' || config.type === 'area')) {
     const qChan = encoding.y?.type === 'quantitative' ? 'y' : encoding.x?.type === 'quantitative' ? 'x' : null;
     if (qChan && encoding[qChan]) {
-      encoding[qChan].stack = state.mark.stacked;
+      encoding[qChan].stack = config.stacked;
     }
   }
+}
 
-  return spec;
+/**
+ * Build one extra layer (its x is a copy of the main layer's, so only y can stack); shared channels
+ * the layer omits are left out
+ */
+function buildLayer(layer: ChartLayer, shared: Record<string, any>): any {
+  const encoding: any = {};
+  for (const channel of LAYER_CHANNELS) {
+    if (isChannelSet(layer.encodings[channel])) {
+      encoding[channel] = buildEncodingChannel(layer.encodings[channel], channel);
+    }
+  }
+  applyStacking(layer.mark, encoding);
+
+  const repeated = Object.fromEntries(
+    Object.entries(shared).filter(([channel]) => !layer.omitShared?.includes(channel as SharedLayerChannel))
+  );
+  return { mark: buildMark(layer.mark), encoding: { ...clone(repeated), ...encoding } };
+}
+
+/**
+ * Layers drawing one annotation (lines and bands with a label get a second, text layer);
+ * empty while the annotation is missing a position
+ */
+export function buildAnnotationLayers(annotation: ChartAnnotation, encodings: BuilderState['encodings']): any[] {
+  const color = annotation.color ?? ANNOTATION_COLORS[annotation.kind];
+
+  if (annotation.kind === 'text') {
+    if (annotation.x === undefined || annotation.y === undefined || !annotation.text) return [];
+    return [
+      {
+        data: SINGLE_ROW,
+        mark: { type: 'text', color, align: 'left', dx: 4, dy: -4 },
+        encoding: {
+          x: annotationDatum(annotation.x, encodings.x?.type),
+          y: annotationDatum(annotation.y, encodings.y?.type),
+          text: { value: annotation.text },
+        },
+      },
+    ];
+  }
+
+  // Lines and bands set only their own position channel, so they span the whole chart
+  const axis = annotation.axis ?? 'y';
+  const other = axis === 'y' ? 'x' : 'y';
+  const channel = encodings[axis];
+  let layer: any;
+
+  if (annotation.kind === 'band') {
+    if (annotation.start === undefined || annotation.end === undefined) return [];
+    layer = {
+      data: SINGLE_ROW,
+      mark: { type: 'rect', color, opacity: BAND_OPACITY },
+      encoding: {
+        [axis]: annotationDatum(annotation.start, channel?.type),
+        [`${axis}2`]: annotationDatum(annotation.end, channel?.type),
+      },
+    };
+  } else {
+    const mark = { type: 'rule', color, ...(annotation.dashed && { strokeDash: [6, 4] }) };
+    if (annotation.aggregate) {
+      if (!channel?.field) return [];
+      const summary = annotationSummaryTransforms(channel, encodings[other]);
+      layer = {
+        ...(summary.length > 0 && { transform: summary }),
+        mark,
+        encoding: {
+          [axis]: { field: channel.field, type: channel.type, aggregate: annotation.aggregate },
+        },
+      };
+    } else {
+      if (annotation.value === undefined) return [];
+      layer = {
+        data: SINGLE_ROW,
+        mark,
+        encoding: { [axis]: annotationDatum(annotation.value, channel?.type) },
+      };
+    }
+  }
+
+  if (!annotation.text) return [layer];
+
+  // Labels sit at the right end of horizontal lines/bands and at the top of vertical ones
+  const { mark: _mark, encoding, ...source } = layer;
+  const labelMark =
+    axis === 'y'
+      ? { type: 'text', color, align: 'right', baseline: 'bottom', dx: -4, dy: -4, x: 'width' }
+      : { type: 'text', color, align: 'left', baseline: 'top', dx: 4, dy: 4, y: 0 };
+  return [
+    layer,
+    {
+      ...source,
+      mark: labelMark,
+      encoding: { [axis]: encoding[axis], text: { value: annotation.text } },
+    },
+  ];
+}
+
+/**
+ * Position for a data value; date strings on a temporal axis are converted, since Vega scales need Dates
+ */
+function annotationDatum(value: number | string, type: EncodingConfig['type']): any {
+  if (type === 'temporal' && typeof value === 'string') {
+    return { datum: { expr: `toDate(${JSON.stringify(value)})` }, type };
+  }
+  return { datum: value };
+}
+
+/**
+ * Steps reducing the rows to the plotted values (one per group on the other axis), so a statistic of an
+ * aggregated axis describes the bars or points rather than the raw rows
+ */
+function annotationSummaryTransforms(channel: EncodingConfig, other: EncodingConfig | undefined): any[] {
+  if (!channel.aggregate || !channel.field) return [];
+  return [
+    ...(other?.field && other.timeUnit ? [{ timeUnit: other.timeUnit, field: other.field, as: other.field }] : []),
+    {
+      aggregate: [{ op: channel.aggregate, field: channel.field, as: channel.field }],
+      groupby: other?.field ? [other.field] : [],
+    },
+  ];
+}
+
+/**
+ * Whether a channel is emitted: it has a field, or conditional rules over a constant
+ */
+export function isChannelSet(config: EncodingConfig | undefined): boolean {
+  return !!config?.field || !!config?.conditions?.some((c) => c.param || c.test?.trim());
+}
+
+/**
+ * Build an x2/y2 channel (a Vega-Lite SecondaryFieldDef: the field and how it's summarized)
+ */
+function buildSecondaryChannel(config: EncodingConfig): any {
+  const channel: any = { field: config.field };
+  if (config.aggregate) channel.aggregate = config.aggregate;
+  if (config.timeUnit) channel.timeUnit = config.timeUnit;
+  return channel;
 }
 
 /**
  * Build encoding configuration for a channel
  */
-function buildEncodingChannel(config: any): any {
+function buildEncodingChannel(config: any, name?: string): any {
+  const condition = buildConditions(config.conditions ?? []);
+  if (!config.field) {
+    return { condition, value: config.value };
+  }
+
+  if (SECONDARY_CHANNELS.includes(name as EncodingChannelName)) {
+    return buildSecondaryChannel(config);
+  }
+
   const channel: any = {
     field: config.field,
     type: config.type,
@@ -177,13 +608,181 @@ function buildEncodingChannel(config: any): any {
     };
   }
 
+  if (config.header) {
+    channel.header = {
+      title: config.header.title,
+      labelAngle: config.header.labelAngle,
+      labelOrient: config.header.labelOrient,
+      labelFontSize: config.header.labelFontSize,
+      titleFontSize: config.header.titleFontSize,
+    };
+  }
+
+  if (config.columns !== undefined) {
+    channel.columns = config.columns;
+  }
+
+  if (condition !== undefined) {
+    channel.condition = condition;
+  }
+
   return channel;
 }
 
+/**
+ * Vega-Lite `condition` for a channel's rules: one object, a list, or undefined when there are none
+ */
+function buildConditions(conditions: EncodingCondition[]): any {
+  const built = conditions
+    .filter((c) => c.param || c.test?.trim())
+    .map((c) => (c.param ? { param: c.param, value: c.value } : { test: c.test, value: c.value }));
+  if (built.length === 0) return undefined;
+  return built.length === 1 ? built[0] : built;
+}
+
+/**
+ * Build a Vega-Lite parameter from a ChartParam; null for a legend selection with no field to bind to
+ */
+export function buildParam(param: ChartParam, colorField?: string): any | null {
+  switch (param.type) {
+    case 'brush':
+    case 'zoom': {
+      const select: any = { type: 'interval' };
+      if (param.encodings?.length) select.encodings = param.encodings;
+      return param.type === 'zoom' ? { name: param.name, select, bind: 'scales' } : { name: param.name, select };
+    }
+
+    case 'click':
+      return { name: param.name, select: param.field ? { type: 'point', fields: [param.field] } : { type: 'point' } };
+
+    case 'legend': {
+      const field = param.field ?? colorField;
+      return field ? { name: param.name, select: { type: 'point', fields: [field] }, bind: 'legend' } : null;
+    }
+
+    case 'input': {
+      const bind: any = { input: param.input ?? 'range' };
+      if (param.label) bind.name = param.label;
+
+      if (bind.input === 'range') {
+        if (param.min !== undefined) bind.min = param.min;
+        if (param.max !== undefined) bind.max = param.max;
+        if (param.step !== undefined) bind.step = param.step;
+        return { name: param.name, value: param.value ?? param.min ?? 0, bind };
+      }
+
+      // Dropdowns and radios start with an "All" choice (null)
+      const options = param.options ?? [];
+      bind.options = [null, ...options];
+      bind.labels = ['All', ...options.map(String)];
+      return { name: param.name, value: param.value ?? null, bind };
+    }
+  }
+}
+
+/**
+ * A new param with defaults from the chart and data: a unique name, the colour field for legend and
+ * click selections, and the field's range or top values for input controls
+ */
+export function createParam(
+  type: ParamType,
+  state: BuilderState,
+  fields: DataField[],
+  field?: string,
+  input?: InputControl
+): ChartParam {
+  const taken = new Set((state.params ?? []).map((p) => p.name));
+  const base = type === 'input' ? `${(field ?? 'value').replace(/[^A-Za-z0-9_]/g, '_')}_input` : type;
+  const safeBase = /^[A-Za-z_]/.test(base) ? base : `p_${base}`;
+  let name = safeBase;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${safeBase}_${i}`;
+  }
+
+  const info = fields.find((f) => f.name === field);
+  const continuous = (f: { type?: string } | undefined) => f?.type === 'quantitative' || f?.type === 'temporal';
+  switch (type) {
+    case 'brush':
+      // Scatter-like charts brush in 2D; bars and lines along x
+      return {
+        name,
+        type,
+        encodings: continuous(state.encodings.x) && continuous(state.encodings.y) ? undefined : ['x'],
+        highlight: true,
+      };
+    case 'zoom':
+      return { name, type };
+    case 'click':
+      return { name, type, field: field ?? state.encodings.color?.field, highlight: true };
+    case 'legend':
+      return { name, type, field: field ?? state.encodings.color?.field, highlight: true };
+    case 'input': {
+      const control = input ?? (info && getFieldType(info) === 'quantitative' ? 'range' : 'select');
+      if (control === 'range') {
+        const { min, max } = info?.stats ?? {};
+        return { name, type, input: control, field, label: field, min, max, value: min, compare: '>=', effect: 'filter' };
+      }
+      const options = (info?.stats?.topValues ?? []).map((v) => v.value).filter((v) => v !== null).slice(0, 20);
+      return { name, type, input: control, field, label: field, options, effect: 'filter' };
+    }
+  }
+}
+
+/**
+ * Expression testing a row against an input control's value; null for selections or inputs without a field
+ */
+export function paramTest(param: ChartParam): string | null {
+  if (param.type !== 'input' || !param.field) return null;
+
+  const ref = fieldRef(param.field);
+  if ((param.input ?? 'range') === 'range') {
+    return `${ref} ${param.compare ?? '>='} ${param.name}`;
+  }
+  return `${param.name} == null || ${ref} == ${param.name}`;
+}
+
+/**
+ * Filter steps for input controls that hide non-matching rows
+ */
+export function buildParamFilters(params: ChartParam[] = []): any[] {
+  return params
+    .filter((p) => p.effect === 'filter')
+    .map(paramTest)
+    .filter((expr): expr is string => !!expr)
+    .map((expr) => ({ filter: expr }));
+}
+
+/**
+ * Add the conditional encodings params drive: colour for matching rows of colour inputs, and faded
+ * opacity outside highlighting selections (unless opacity already encodes a field)
+ */
+export function applyParamEffects(encoding: any, params: ChartParam[]): any {
+  const colorConditions = params
+    .filter((p) => p.effect === 'color' && paramTest(p))
+    .map((p) => ({ test: paramTest(p), value: p.color ?? DEFAULT_MATCH_COLOR }));
+  if (colorConditions.length > 0) {
+    // They come after the user's own colour rules, which win where both match
+    const all = [...[encoding.color?.condition ?? []].flat(), ...colorConditions];
+    const condition = all.length === 1 ? all[0] : all;
+    encoding.color = encoding.color ? { ...encoding.color, condition } : { condition, value: UNMATCHED_COLOR };
+  }
+
+  const highlighted = params.filter((p) => p.highlight && ['brush', 'click', 'legend'].includes(p.type));
+  if (highlighted.length > 0 && !encoding.opacity) {
+    const condition =
+      highlighted.length === 1
+        ? { param: highlighted[0].name, value: 1 }
+        : { test: { and: highlighted.map((p) => ({ param: p.name })) }, value: 1 };
+    encoding.opacity = { condition, value: FADED_OPACITY };
+  }
+
+  return encoding;
+}
+
 /**
  * Build Vega-Lite transforms from ChartTransform array
  */
-function buildTransforms(transforms: ChartTransform[]): any[] {
+export function buildTransforms(transforms: ChartTransform[]): any[] {
   const vegaTransforms: any[] = [];
 
   for (const t of transforms) {
@@ -214,13 +813,17 @@ function buildTransforms(transforms: ChartTransform[]): any[] {
         vegaTransforms.push({
           aggregate: t.ops.map((op, i) => ({
             op,
-            field: t.fields[i],
+            field: t.fields[i] || undefined, // count doesn't need a field
             as: t.as[i],
           })),
           groupby: t.groupby,
         });
         break;
 
+      case 'custom':
+        vegaTransforms.push(t.transform);
+        break;
+
       default:
         console.warn('Unknown transform kind:', (t as any).kind);
     }
@@ -229,6 +832,83 @@ function buildTransforms(transforms: ChartTransform[]): any[] {
   return vegaTransforms;
 }
 
+/**
+ * Build a Vega expression reference to a field (bracket notation for names with spaces etc.)
+ */
+export function fieldRef(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `datum.${name}` : `datum[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Vega expression converting a formatted field to a number or date (null when empty)
+ */
+export function formatExpression(field: string, format: FieldFormat): string {
+  const ref = fieldRef(field);
+  const digits = (pattern: string) => `toNumber(replace(${ref} + '', regexp('${pattern}', 'g'), ''))`;
+  const year = `toNumber(replace(replace(${ref}, regexp('Q[1-4]', 'i'), ''), regexp('[^0-9]', 'g'), ''))`;
+
+  let value: string;
+  switch (format) {
+    case 'number':
+    case 'percent':
+    case 'currency':
+      value = digits('[^0-9.eE+-]');
+      break;
+    case 'epoch-ms':
+      value = `toDate(${ref})`;
+      break;
+    case 'quarter':
+      value = `datetime(${year}, (toNumber(replace(${ref}, regexp('^.*Q([1-4]).*$', 'i'), '$1')) - 1) * 3, 1)`;
+      break;
+    case 'month-year':
+      value = `datetime(${year}, indexof('janfebmaraprmayjunjulaugsepoctnovdec', lower(slice(trim(${ref}), 0, 3))) / 3, 1)`;
+      break;
+  }
+  return `isValid(${ref}) && ${ref} !== '' ? ${value} : null`;
+}
+
+/**
+ * Calculate steps that convert formatted fields in place, for fields still used as the format's type
+ */
+export function buildFormatTransforms(fields: DataField[]): any[] {
+  return fields
+    .filter((f) => f.format && getFieldType(f) === FORMAT_TYPES[f.format])
+    .map((f) => ({ calculate: formatExpression(f.name, f.format!), as: f.name }));
+}
+
+/**
+ * Whether a transform is a conversion step generated by buildFormatTransforms
+ */
+export function isFormatTransform(t: any): boolean {
+  if (typeof t?.calculate !== 'string' || typeof t.as !== 'string') return false;
+  return (Object.keys(FORMAT_TYPES) as FieldFormat[]).some((format) => t.calculate === formatExpression(t.as, format));
+}
+
+/**
+ * Carry encodings over when the mark changes between arc (which has no x/y) and cartesian marks:
+ * y becomes the angle and x the color, and back
+ */
+export function adaptEncodingsToMark(
+  encodings: BuilderState['encodings'],
+  from: MarkType,
+  to: MarkType
+): BuilderState['encodings'] {
+  const next = { ...encodings };
+
+  if (to === 'arc' && from !== 'arc' && !next.theta?.field && next.y?.field) {
+    next.theta = next.y;
+    if (!next.color?.field && next.x?.field) next.color = next.x;
+    next.x = undefined;
+    next.y = undefined;
+  } else if (from === 'arc' && to !== 'arc' && !next.y?.field && next.theta?.field) {
+    next.y = next.theta;
+    if (!next.x?.field && next.color?.field) next.x = next.color;
+    next.theta = undefined;
+  }
+
+  return next;
+}
+
 /**
  * Get default builder state
  */
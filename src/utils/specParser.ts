@@ -1,179 +1,884 @@
 import type { VisualizationSpec } from 'vega-embed';
-import type { BuilderState, MarkType, EncodingConfig } from '@/types';
+import type {
+  AggregateOp,
+  AnnotationAggregate,
+  BuilderState,
+  ChartAnnotation,
+  ChartLayer,
+  ChartParam,
+  ChartTransform,
+  ConditionChannel,
+  EncodingChannelName,
+  EncodingCondition,
+  EncodingConfig,
+  FacetChannel,
+  MarkConfig,
+  MarkType,
+  ResolveMode,
+  SharedLayerChannel,
+  SpecOverrides,
+  TransformTopN,
+} from '@/types';
+import {
+  COMPOSITE_MARKS,
+  CONDITION_CHANNELS,
+  FACET_CHANNELS,
+  FACET_INNER_KEYS,
+  LAYER_CHANNELS,
+  MARK_CHANNELS,
+  SECONDARY_CHANNELS,
+  SHARED_LAYER_CHANNELS,
+  applyParamEffects,
+  buildAnnotationLayers,
+  buildParam,
+  buildParamFilters,
+  buildTransforms,
+  isFormatTransform,
+  isStandaloneChannelDef,
+  paramTest,
+} from '@/utils/specBuilder';
+import { themeFromConfig } from '@/utils/themes';
+
+// Top-level keys parseSpecToBuilderState reads (any others are kept as overrides)
+const HANDLED_TOP_LEVEL_KEYS = [
+  '$schema',
+  'data',
+  'mark',
+  'encoding',
+  'layer',
+  'params',
+  'transform',
+  'resolve',
+  'projection',
+  'width',
+  'height',
+  'padding',
+  'title',
+  'description',
+  'background',
+  'config',
+];
+
+// Keys that make a layer a composed view rather than a single mark
+const COMPOSITION_KEYS = ['layer', 'facet', 'spec', 'repeat', 'concat', 'hconcat', 'vconcat'];
+
+// Encoding channel keys mirrored in EncodingConfig, and the editable options of its nested objects
+const CHANNEL_KEYS = ['field', 'type', 'aggregate', 'bin', 'timeUnit', 'sort', 'columns', 'scale', 'axis', 'legend', 'header'];
+const CHANNEL_OPTION_KEYS: Record<string, string[]> = {
+  scale: ['domain', 'range', 'scheme', 'reverse', 'zero'],
+  axis: ['title', 'format', 'grid', 'labelAngle', 'labelFontSize', 'titleFontSize'],
+  legend: ['title', 'orient', 'labelFontSize', 'titleFontSize'],
+  header: ['title', 'labelAngle', 'labelOrient', 'labelFontSize', 'titleFontSize'],
+};
+
+const ANNOTATION_AGGREGATES: AnnotationAggregate[] = ['mean', 'median', 'min', 'max'];
+const AGGREGATE_OPS: AggregateOp[] = ['sum', 'mean', 'median', 'count', 'min', 'max', 'distinct', 'q1', 'q3', 'variance', 'stdev'];
 
 /**
- * Parse a Vega-Lite spec back into BuilderState (best-effort)
+ * Detect specs that can't be represented in BuilderState
+ * (faceted, concatenated, external data, hand-written transform pipelines, or nested/composed layers)
+ */
+export function detectCustomSpec(spec: VisualizationSpec, builderState: BuilderState): boolean {
+  const s = fromFacetSpec(spec);
+  // Allow as many transforms as the builder itself emits (topN expands to two, input controls add filters)
+  const builderTransformCount =
+    buildTransforms(builderState.transforms).length + buildParamFilters(builderState.params).length;
+  // Field format conversions are generated from the data, not part of the user's pipeline
+  const userTransforms = Array.isArray(s.transform) ? s.transform.filter((t: any) => !isFormatTransform(t)) : [];
+
+  return !!(
+    s.facet ||
+    (s.layer && !isBuilderLayerSpec(s)) ||
+    s.hconcat ||
+    s.vconcat ||
+    s.repeat ||
+    userTransforms.length > Math.max(3, builderTransformCount) ||
+    (s.data && s.data.url)
+  );
+}
+
+/**
+ * Parse a Vega-Lite spec back into BuilderState. Whatever the builder doesn't model (unknown keys,
+ * extra mark/axis options, unrecognised transforms) is kept in `overrides` or as custom transforms,
+ * so buildSpec reproduces the spec.
  */
 export function parseSpecToBuilderState(spec: VisualizationSpec): Partial<BuilderState> {
+  // Faceted layers are read in the form buildSpec assembles them in, with facets in the encoding
+  const s = fromFacetSpec(spec);
+  // Layered spec: the first layer (plus the shared encodings) is the main chart
+  const layered = isBuilderLayerSpec(s);
+  const [main, ...extra] = layered ? s.layer : [s];
+  const overrides: SpecOverrides = {};
+
+  // Parse interactive parameters (selections may sit in the main layer), then the opacity, colour and
+  // filters buildSpec derives from them
+  const topParams = parseParams(s.params);
+  const mainParams = layered ? parseParams(main.params) : { params: [] };
+  const params = [...topParams.params, ...mainParams.params];
+  if (topParams.leftover) overrides.params = topParams.leftover;
+  const transforms = Array.isArray(s.transform) ? s.transform : [];
+  const { encoding, consumedTransforms } = parseParamEffects(
+    params,
+    layered ? { ...s.encoding, ...main.encoding } : s.encoding ?? {},
+    transforms
+  );
+
+  // Every key is set so values from a previously loaded spec don't linger
   const builderState: Partial<BuilderState> = {
     encodings: {},
     transforms: [],
+    layers: [],
+    annotations: [],
+    params,
+    title: undefined,
+    subtitle: undefined,
+    description: undefined,
+    background: undefined,
+    padding: undefined,
   };
 
-  // Parse mark
-  if (spec.mark) {
-    const markConfig = typeof spec.mark === 'string' ? { type: spec.mark } : spec.mark;
-    builderState.mark = {
-      type: markConfig.type as MarkType,
-      point: markConfig.point,
-      stacked: null, // Will try to infer from encoding
-    };
+  // Parse mark (stacking is read back from the encoding)
+  let stackChannel: string | null = null;
+  if (main.mark) {
+    const { config, leftover } = parseMark(main.mark);
+    builderState.mark = config;
+    stackChannel = parseStacking(config, encoding);
+    if (leftover) overrides.mark = leftover;
+  }
+
+  // Parse encodings: mark channels, facet channels (small multiples) and tooltips
+  const encodingLeftover = parseEncodings(
+    encoding,
+    [...MARK_CHANNELS, ...FACET_CHANNELS, 'tooltip'],
+    builderState.encodings!,
+    stackChannel
+  );
+  if (encodingLeftover) overrides.encoding = encodingLeftover;
 
-    // Check for stacking in encoding
-    if (spec.encoding) {
-      const yEnc = (spec.encoding as any).y;
-      const xEnc = (spec.encoding as any).x;
-      if (yEnc?.stack) {
-        builderState.mark.stacked = yEnc.stack;
-      } else if (xEnc?.stack) {
-        builderState.mark.stacked = xEnc.stack;
+  // Parse extra layers; they also inherit the top-level channels that aren't shared by every layer, and
+  // copies of the main layer's shared channels (as buildSpec repeats them) are dropped. A layer without
+  // one of the main layer's shared channels records that it leaves it out.
+  if (layered) {
+    const mainEncoding = { ...s.encoding, ...main.encoding };
+    const inherited = Object.fromEntries(
+      Object.entries(s.encoding ?? {}).filter(
+        ([channel]) => !SHARED_LAYER_CHANNELS.includes(channel) && !FACET_CHANNELS.includes(channel as FacetChannel)
+      )
+    );
+    const mainLeftover = omitKeys(main, ['mark', 'encoding', 'params']) ?? {};
+    if (mainParams.leftover) mainLeftover.params = mainParams.leftover;
+    const layerOverrides = [mainLeftover];
+    const extraLayers = extra.map((layer: any) => {
+      const own = Object.entries(layer.encoding ?? {}).filter(
+        ([channel, def]) => !SHARED_LAYER_CHANNELS.includes(channel) || !isDeepEqual(def, mainEncoding[channel])
+      );
+      return { ...layer, encoding: { ...inherited, ...Object.fromEntries(own) } };
+    });
+
+    // Trailing layers that rebuild exactly as annotations are annotations; the rest are chart layers
+    let chartLayerCount = extraLayers.length;
+    for (let start = 0; start < extraLayers.length; start++) {
+      const annotations = parseAnnotations(extraLayers.slice(start), builderState.encodings!);
+      if (annotations) {
+        builderState.annotations = annotations;
+        chartLayerCount = start;
+        break;
       }
     }
+
+    extraLayers.slice(0, chartLayerCount).forEach((layer: any, i: number) => {
+      const parsed = parseLayer(layer);
+      const omitShared = SHARED_LAYER_CHANNELS.filter(
+        (channel) => mainEncoding[channel] !== undefined && s.encoding?.[channel] === undefined && extra[i].encoding?.[channel] === undefined
+      );
+      if (omitShared.length > 0) parsed.layer.omitShared = omitShared as SharedLayerChannel[];
+      builderState.layers!.push(parsed.layer);
+      layerOverrides.push(parsed.leftover ?? {});
+    });
+    if (layerOverrides.some((o) => Object.keys(o).length > 0)) overrides.layer = layerOverrides;
   }
 
-  // Parse encodings
-  if (spec.encoding) {
-    const encoding = spec.encoding as any;
+  // Parse scale resolution (layers and facet panels); set either way so earlier values don't linger
+  const resolve = parseResolve(s.resolve);
+  builderState.resolveX = resolve.x;
+  builderState.resolveY = resolve.y;
+  if (resolve.leftover) overrides.resolve = resolve.leftover;
 
-    // X encoding (note: x2 is handled by Vega-Lite, we just store x)
-    if (encoding.x) {
-      builderState.encodings!.x = parseEncodingChannel(encoding.x);
-    }
+  // Parse transforms; anything the transform editors don't cover is kept as a custom step
+  builderState.transforms = parseTransforms(transforms.filter((_: any, i: number) => !consumedTransforms.has(i)));
 
-    // Y encoding (note: y2 is handled by Vega-Lite, we just store y)
-    if (encoding.y) {
-      builderState.encodings!.y = parseEncodingChannel(encoding.y);
+  // Parse projection (only its type is editable, for geoshape marks)
+  if (s.projection !== undefined) {
+    if (builderState.mark?.type === 'geoshape' && isPlainObject(s.projection) && typeof s.projection.type === 'string') {
+      builderState.mark.projection = s.projection.type;
+      const leftover = omitKeys(s.projection, ['type']);
+      if (leftover) overrides.projection = leftover;
+    } else {
+      overrides.projection = s.projection;
     }
+  }
 
-    // Color encoding
-    if (encoding.color) {
-      builderState.encodings!.color = parseEncodingChannel(encoding.color);
+  // Parse layout ('container' sizing is the default when width/height are omitted)
+  for (const key of ['width', 'height'] as const) {
+    if (typeof s[key] === 'number') {
+      builderState[key] = s[key];
+    } else {
+      builderState[key] = 'container';
+      if (s[key] !== undefined && s[key] !== 'container') overrides[key] = s[key];
     }
+  }
+
+  if (isPadding(s.padding)) {
+    builderState.padding = s.padding;
+  } else if (s.padding !== undefined) {
+    overrides.padding = s.padding;
+  }
+
+  // Parse title (styling options are kept as overrides)
+  if (typeof s.title === 'string') {
+    builderState.title = s.title;
+  } else if (isPlainObject(s.title)) {
+    const known = ['text', 'subtitle'].filter((key) => typeof s.title[key] === 'string');
+    builderState.title = known.includes('text') ? s.title.text : undefined;
+    builderState.subtitle = known.includes('subtitle') ? s.title.subtitle : undefined;
+    const leftover = omitKeys(s.title, known);
+    if (leftover) overrides.title = leftover;
+  } else if (s.title !== undefined) {
+    overrides.title = s.title;
+  }
+
+  // The config block is the chart's theme
+  if (isPlainObject(s.config)) {
+    builderState.theme = themeFromConfig(s.config);
+  } else {
+    builderState.theme = undefined;
+    if (s.config !== undefined) overrides.config = s.config;
+  }
 
-    // Size encoding
-    if (encoding.size) {
-      builderState.encodings!.size = parseEncodingChannel(encoding.size);
+  // Parse description and background
+  for (const key of ['description', 'background'] as const) {
+    if (typeof s[key] === 'string') {
+      builderState[key] = s[key];
+    } else if (s[key] !== undefined) {
+      overrides[key] = s[key];
     }
+  }
+
+  // Everything else (usermeta, autosize...) passes through unchanged
+  Object.assign(overrides, omitKeys(s, HANDLED_TOP_LEVEL_KEYS));
+
+  builderState.overrides = Object.keys(overrides).length > 0 ? overrides : undefined;
+  return builderState;
+}
+
+/**
+ * Paths of the spec parts the builder can't edit (kept as overrides or custom transforms),
+ * for warning the user after loading a spec
+ */
+export function listUneditableParts(builderState: Partial<BuilderState>): string[] {
+  const { mark, encoding, layer, ...rest } = builderState.overrides ?? {};
+  const parts = Object.keys(rest);
 
-    // Tooltip
-    if (encoding.tooltip) {
-      if (Array.isArray(encoding.tooltip)) {
-        builderState.encodings!.tooltip = encoding.tooltip.map((t: any) => parseEncodingChannel(t));
+  const describeView = (prefix: string, view: Record<string, any>) => {
+    const { mark: viewMark, encoding: viewEncoding, ...viewRest } = view;
+    parts.push(...Object.keys(viewRest).map((key) => `${prefix}${key}`));
+    parts.push(...Object.keys(viewMark ?? {}).map((key) => `${prefix}mark.${key}`));
+    for (const [channel, def] of Object.entries(viewEncoding ?? {})) {
+      if (isStandaloneChannelDef(def) || !isPlainObject(def)) {
+        parts.push(`${prefix}encoding.${channel}`);
       } else {
-        builderState.encodings!.tooltip = 'auto';
+        parts.push(...Object.keys(def).map((key) => `${prefix}encoding.${channel}.${key}`));
       }
     }
+  };
+
+  describeView('', { mark, encoding });
+  layer?.forEach((layerOverrides, i) => describeView(`layer[${i}].`, layerOverrides));
+
+  builderState.transforms?.forEach((t, i) => {
+    if (t.kind === 'custom') {
+      parts.push(`transform[${i}] (${Object.keys(t.transform)[0] ?? 'empty'})`);
+    }
+  });
+
+  return parts;
+}
+
+/**
+ * Whether a layered spec can be edited by the builder: every layer is a single-mark view
+ * (nested layers, facets and concatenation can't be expressed)
+ */
+export function isBuilderLayerSpec(spec: VisualizationSpec): boolean {
+  const layers = (spec as any).layer;
+  if (!Array.isArray(layers) || layers.length === 0) return false;
+
+  return layers.every(
+    (layer: any) => isPlainObject(layer) && layer.mark && !COMPOSITION_KEYS.some((key) => key in layer)
+  );
+}
+
+/**
+ * Unwrap a facet spec buildSpec made from faceted layers (see toFacetSpec): the inner view's keys move up
+ * and the facet becomes top-level facet channels. Any other spec is returned unchanged.
+ */
+function fromFacetSpec(spec: VisualizationSpec): any {
+  const s = spec as any;
+  if (!isPlainObject(s.facet) || !isPlainObject(s.spec) || !isBuilderLayerSpec(s.spec)) return s;
+
+  const { facet, columns, spec: inner, ...rest } = s;
+  const { resolve: layerResolve, ...view } = inner;
+  const wrapped = typeof facet.field === 'string';
+  const gridChannels = Object.keys(facet).length > 0 && Object.keys(facet).every((key) => key === 'row' || key === 'column');
+  const layerResolveMatches =
+    layerResolve === undefined ||
+    (isDeepEqual(layerResolve, { scale: { y: 'independent' } }) && s.resolve?.scale?.y === 'independent');
+  if (
+    (!wrapped && !gridChannels) ||
+    (!wrapped && columns !== undefined) ||
+    !layerResolveMatches ||
+    Object.keys(view).some((key) => !FACET_INNER_KEYS.includes(key))
+  ) {
+    return s;
+  }
+
+  const encoding = wrapped ? { facet: columns !== undefined ? { ...facet, columns } : facet } : facet;
+  return { ...rest, ...view, encoding };
+}
+
+/**
+ * Parse a mark definition; options the builder doesn't model for this mark type are returned as leftover
+ */
+function parseMark(mark: any): { config: MarkConfig; leftover?: Record<string, any> } {
+  const markConfig = typeof mark === 'string' ? { type: mark } : mark;
+  const config: MarkConfig = {
+    type: markConfig.type as MarkType,
+    stacked: null, // Read back from the encoding by parseStacking
+  };
+
+  const known = markOptionKeys(config.type).filter((key) => markConfig[key] !== undefined);
+  for (const key of known) {
+    (config as any)[key] = markConfig[key];
   }
 
-  // Parse transforms (basic support)
-  if (spec.transform && Array.isArray(spec.transform)) {
-    for (const transform of spec.transform) {
-      if ((transform as any).filter) {
-        builderState.transforms!.push({
-          kind: 'filter',
-          expr: (transform as any).filter,
-        });
-      } else if ((transform as any).calculate) {
-        builderState.transforms!.push({
-          kind: 'calculate',
-          calculate: (transform as any).calculate,
-          as: (transform as any).as,
-        });
+  // buildMark turns tooltips on for every non-composite mark, so only other tooltip settings need keeping
+  const builderTooltip = markConfig.tooltip === true && !COMPOSITE_MARKS.includes(config.type);
+  const consumed = ['type', ...known, ...(builderTooltip ? ['tooltip'] : [])];
+  return { config, leftover: omitKeys(markConfig, consumed) };
+}
+
+/**
+ * Mark options buildMark emits for a mark type
+ */
+function markOptionKeys(type: string): string[] {
+  const keys = ['point', 'opacity', 'size', 'strokeWidth'];
+  if (['line', 'area', 'trail', 'errorband'].includes(type)) keys.push('interpolate');
+  if (type === 'arc') keys.push('innerRadius', 'padAngle');
+  if (['arc', 'bar', 'rect'].includes(type)) keys.push('cornerRadius');
+  if (COMPOSITE_MARKS.includes(type as MarkType)) keys.push('extent');
+  if (type === 'image') keys.push('width', 'height');
+  return keys;
+}
+
+/**
+ * Read bar/area stacking back from the channel applyStacking writes it to; returns that channel
+ */
+function parseStacking(config: MarkConfig, encoding: any): string | null {
+  if (config.type !== 'bar' && config.type !== 'area') return null;
+
+  const channel = encoding?.y?.type === 'quantitative' ? 'y' : encoding?.x?.type === 'quantitative' ? 'x' : null;
+  const stack = channel ? encoding[channel].stack : undefined;
+  if (stack !== 'zero' && stack !== 'normalize') return null;
+
+  config.stacked = stack;
+  return channel;
+}
+
+/**
+ * Parse the channels the builder models into `target`; everything else (other channels, value
+ * definitions, extra options) is returned as leftover
+ */
+function parseEncodings(
+  encoding: any,
+  channels: readonly string[],
+  target: Record<string, any>,
+  stackChannel: string | null = null
+): Record<string, any> | undefined {
+  const leftover: Record<string, any> = {};
+
+  for (const [channel, def] of Object.entries<any>(encoding ?? {})) {
+    if (!channels.includes(channel)) {
+      leftover[channel] = def;
+    } else if (channel === 'tooltip') {
+      const tooltip = parseTooltip(def);
+      if (tooltip) {
+        target.tooltip = tooltip;
+      } else {
+        leftover.tooltip = def;
       }
-      // Note: topN uses window transform which is harder to reverse-parse
+    } else if (isPlainObject(def) && typeof def.field === 'string' && SECONDARY_CHANNELS.includes(channel as EncodingChannelName)) {
+      // buildSpec writes range ends as the field and its summary; anything else is kept as written
+      target[channel] = { field: def.field, aggregate: def.aggregate, timeUnit: def.timeUnit };
+      const extra = omitKeys(def, ['field', 'aggregate', 'timeUnit']);
+      if (extra) leftover[channel] = extra;
+    } else if (isPlainObject(def) && typeof def.field === 'string') {
+      const parsed = parseEncodingChannel(def, CONDITION_CHANNELS.includes(channel as ConditionChannel));
+      target[channel] = parsed.config;
+      const extra = omitKeys(parsed.leftover ?? {}, channel === stackChannel ? ['stack'] : []);
+      if (extra) leftover[channel] = extra;
+    } else if (CONDITION_CHANNELS.includes(channel as ConditionChannel) && parseRulesOnlyChannel(def)) {
+      target[channel] = parseRulesOnlyChannel(def);
+    } else {
+      leftover[channel] = def;
     }
   }
 
-  // Parse layout
-  if (typeof spec.width === 'number') {
-    builderState.width = spec.width;
-  } else if (spec.width === undefined) {
-    builderState.width = 'container';
+  return Object.keys(leftover).length > 0 ? leftover : undefined;
+}
+
+/**
+ * Parse conditional rules as buildSpec emits them; null for anything else (nested selections, field conditions)
+ */
+function parseConditions(condition: any): EncodingCondition[] | null {
+  const list = [condition].flat();
+  const parseable = list.every(
+    (c) =>
+      isPlainObject(c) &&
+      (typeof c.value === 'string' || typeof c.value === 'number') &&
+      (typeof c.test === 'string' || typeof c.param === 'string') &&
+      !omitKeys(c, [typeof c.test === 'string' ? 'test' : 'param', 'value'])
+  );
+  return parseable && list.length > 0 ? list.map((c) => ({ ...c })) : null;
+}
+
+/**
+ * Parse a channel set only by rules over a constant (`{ condition, value }`); null for anything else
+ */
+function parseRulesOnlyChannel(def: any): EncodingConfig | null {
+  if (!isPlainObject(def) || omitKeys(def, ['condition', 'value'])) return null;
+  if (def.value !== undefined && typeof def.value !== 'string' && typeof def.value !== 'number') return null;
+  const conditions = parseConditions(def.condition);
+  return conditions ? { conditions, value: def.value } : null;
+}
+
+/**
+ * Parse a tooltip list as buildSpec emits it; null for anything else (a single field, value, null)
+ */
+function parseTooltip(def: any): EncodingConfig[] | null {
+  if (!Array.isArray(def)) return null;
+  const parseable = def.every(
+    (t) => isPlainObject(t) && typeof t.field === 'string' && !omitKeys(t, ['field', 'type', 'aggregate', 'format'])
+  );
+  if (!parseable) return null;
+
+  return def.map((t) => ({
+    field: t.field,
+    type: t.type,
+    aggregate: t.aggregate,
+    axis: t.format !== undefined ? { format: t.format } : undefined,
+  }));
+}
+
+/**
+ * Parse a params list; params not shaped like buildParam's output are returned as leftover
+ */
+function parseParams(list: any): { params: ChartParam[]; leftover?: any } {
+  if (list === undefined) return { params: [] };
+  if (!Array.isArray(list)) return { params: [], leftover: list };
+
+  const params: ChartParam[] = [];
+  const leftover: any[] = [];
+  for (const p of list) {
+    const param = parseParam(p);
+    if (param) {
+      params.push(param);
+    } else {
+      leftover.push(p);
+    }
   }
+  return { params, leftover: leftover.length > 0 ? leftover : undefined };
+}
+
+function parseParam(p: any): ChartParam | null {
+  if (!isPlainObject(p) || typeof p.name !== 'string') return null;
 
-  if (typeof spec.height === 'number') {
-    builderState.height = spec.height;
-  } else if (spec.height === undefined) {
-    builderState.height = 'container';
+  const select = p.select;
+  let param: ChartParam;
+  if (select?.type === 'interval') {
+    param = { name: p.name, type: p.bind === 'scales' ? 'zoom' : 'brush', encodings: select.encodings };
+  } else if (select?.type === 'point') {
+    param = { name: p.name, type: p.bind === 'legend' ? 'legend' : 'click', field: select.fields?.[0] };
+  } else if (isPlainObject(p.bind) && ['range', 'select', 'radio'].includes(p.bind.input)) {
+    const { input, name: label, min, max, step, options } = p.bind;
+    param = {
+      name: p.name,
+      type: 'input',
+      input,
+      label,
+      value: p.value ?? undefined,
+      min,
+      max,
+      step,
+      options: Array.isArray(options) ? options.slice(1) : undefined, // Without the "All" choice
+    };
+  } else {
+    return null;
   }
 
-  // Parse title
-  if (spec.title) {
-    builderState.title = typeof spec.title === 'string' ? spec.title : spec.title.text;
+  // Drop unset options so the builder state stays tidy
+  param = JSON.parse(JSON.stringify(param));
+  return isDeepEqual(buildParam(param), p) ? param : null;
+}
+
+/**
+ * Recognise the filters and conditional encodings buildSpec derives from params, recording them on the
+ * params; returns the encoding without them and the indices of the filters consumed
+ */
+function parseParamEffects(
+  params: ChartParam[],
+  encoding: any,
+  transforms: any[]
+): { encoding: any; consumedTransforms: Set<number> } {
+  const result = { ...encoding };
+  const consumedTransforms = new Set<number>();
+
+  // Input controls that filter rows
+  transforms.forEach((t, i) => {
+    if (!isPlainObject(t) || typeof t.filter !== 'string' || omitKeys(t, ['filter'])) return;
+    const param = params.find((p) => p.type === 'input' && !p.effect && matchParamTest(t.filter, p));
+    if (param) {
+      Object.assign(param, matchParamTest(t.filter, param), { effect: 'filter' });
+      consumedTransforms.add(i);
+    }
+  });
+
+  // Input controls that colour matching marks; buildSpec appends their conditions after the user's own rules
+  if (isPlainObject(result.color) && result.color.condition !== undefined) {
+    const trial = params.map((p) => ({ ...p }));
+    const conditions: any[] = [result.color.condition].flat();
+    let own = conditions.length;
+    while (own > 0) {
+      const condition = conditions[own - 1];
+      const test = typeof condition?.test === 'string' ? condition.test : null;
+      const param = test && trial.find((p) => p.type === 'input' && !p.effect && matchParamTest(test, p));
+      if (!param) break;
+      Object.assign(param, matchParamTest(test!, param), { effect: 'color', color: condition.value });
+      own--;
+    }
+
+    // Either the user's own colour encoding or the grey fallback buildSpec adds
+    const { condition: _condition, ...rest } = result.color;
+    const ownConditions = conditions.slice(0, own);
+    const base = own > 0 ? { ...rest, condition: own === 1 ? ownConditions[0] : ownConditions } : rest;
+    const colorParams = trial.filter((p) => p.effect === 'color');
+    for (const candidate of own > 0 ? [base] : [undefined, base]) {
+      const rebuilt = applyParamEffects(candidate ? { color: { ...candidate } } : {}, colorParams).color;
+      if (colorParams.length > 0 && isDeepEqual(rebuilt, result.color)) {
+        trial.forEach((p, i) => Object.assign(params[i], p));
+        if (candidate) {
+          result.color = candidate;
+        } else {
+          delete result.color;
+        }
+        break;
+      }
+    }
   }
 
-  // Parse description
-  if (spec.description) {
-    builderState.description = spec.description;
+  // Selections that fade unselected marks
+  const condition = result.opacity?.condition;
+  if (isPlainObject(condition) && !('field' in result.opacity)) {
+    const names: unknown[] =
+      typeof condition.param === 'string' ? [condition.param] : (condition.test?.and ?? []).map((t: any) => t?.param);
+    const trial = params.map((p) => ({ ...p, highlight: names.includes(p.name) || undefined }));
+    if (isDeepEqual(applyParamEffects({}, trial).opacity, result.opacity)) {
+      params.forEach((p, i) => {
+        p.highlight = trial[i].highlight;
+      });
+      delete result.opacity;
+    }
   }
 
-  // Parse background
-  if (spec.background) {
-    builderState.background = spec.background;
+  return { encoding: result, consumedTransforms };
+}
+
+/**
+ * Read the field (and slider comparison) back from an input control's test expression
+ */
+function matchParamTest(expr: string, param: ChartParam): Pick<ChartParam, 'field' | 'compare'> | null {
+  const match = expr.match(/(datum(?:\.[A-Za-z_$][\w$]*|\[".*"\])) (==|>=|<=) ([A-Za-z_$][\w$]*)$/);
+  if (!match || match[3] !== param.name) return null;
+
+  let field: string;
+  try {
+    field = match[1].startsWith('datum[') ? JSON.parse(match[1].slice(6, -1)) : match[1].slice(6);
+  } catch {
+    return null;
   }
 
-  return builderState;
+  const parsed = (param.input ?? 'range') === 'range' ? { field, compare: match[2] as ChartParam['compare'] } : { field };
+  return paramTest({ ...param, ...parsed }) === expr ? parsed : null;
 }
 
 /**
- * Parse a single encoding channel
+ * Parse scale resolution; only independent/shared x and y scales are editable
  */
-function parseEncodingChannel(channel: any): EncodingConfig {
-  const encoding: EncodingConfig = {};
+function parseResolve(resolve: any): { x?: ResolveMode; y?: ResolveMode; leftover?: Record<string, any> } {
+  if (resolve === undefined) return {};
+  if (!isPlainObject(resolve)) return { leftover: resolve };
+
+  const scale = isPlainObject(resolve.scale) ? resolve.scale : {};
+  const known = ['x', 'y'].filter((channel) => scale[channel] === 'independent' || scale[channel] === 'shared');
+  const scaleLeftover = omitKeys(scale, known);
+  const leftover = omitKeys(resolve, isPlainObject(resolve.scale) ? ['scale'] : []) ?? {};
+  if (scaleLeftover) leftover.scale = scaleLeftover;
+
+  return {
+    x: scale.x === 'independent' ? 'independent' : undefined,
+    y: scale.y === 'independent' ? 'independent' : undefined,
+    leftover: Object.keys(leftover).length > 0 ? leftover : undefined,
+  };
+}
 
-  if (channel.field) {
-    encoding.field = channel.field;
+/**
+ * Parse a transform pipeline (format conversions are skipped; buildSpec regenerates them from the data)
+ */
+export function parseTransforms(transforms: any[]): ChartTransform[] {
+  const result: ChartTransform[] = [];
+
+  for (let i = 0; i < transforms.length; i++) {
+    if (isFormatTransform(transforms[i])) continue;
+
+    // Top N is emitted as a window rank followed by a filter on the rank
+    const topN = parseTopN(transforms[i], transforms[i + 1]);
+    if (topN) {
+      result.push(topN);
+      i++;
+    } else {
+      result.push(parseTransform(transforms[i]));
+    }
   }
 
-  if (channel.type) {
-    encoding.type = channel.type;
+  return result;
+}
+
+function parseTopN(window: any, filter: any): TransformTopN | null {
+  const match = typeof filter?.filter === 'string' && filter.filter.match(/^datum\.__rank__ <= (\d+)$/);
+  if (!match || omitKeys(filter, ['filter']) || !isPlainObject(window) || omitKeys(window, ['window', 'sort'])) {
+    return null;
   }
 
-  if (channel.aggregate) {
-    encoding.aggregate = channel.aggregate;
+  const ops = window.window;
+  const sort = window.sort;
+  const isRank =
+    Array.isArray(ops) && ops.length === 1 && ops[0]?.op === 'rank' && ops[0].as === '__rank__' && !omitKeys(ops[0], ['op', 'as']);
+  const isSingleSort =
+    Array.isArray(sort) && sort.length === 1 && typeof sort[0]?.field === 'string' && !omitKeys(sort[0], ['field', 'order']);
+  if (!isRank || !isSingleSort) return null;
+
+  return {
+    kind: 'topN',
+    n: Number(match[1]),
+    byField: sort[0].field,
+    order: sort[0].order === 'descending' ? 'descending' : 'ascending',
+  };
+}
+
+function parseTransform(t: any): ChartTransform {
+  if (isPlainObject(t) && typeof t.filter === 'string' && !omitKeys(t, ['filter'])) {
+    return { kind: 'filter', expr: t.filter };
   }
 
-  if (channel.bin !== undefined) {
-    encoding.bin = channel.bin;
+  if (isPlainObject(t) && typeof t.calculate === 'string' && typeof t.as === 'string' && !omitKeys(t, ['calculate', 'as'])) {
+    return { kind: 'calculate', calculate: t.calculate, as: t.as };
   }
 
-  if (channel.timeUnit) {
-    encoding.timeUnit = channel.timeUnit;
+  if (isPlainObject(t) && Array.isArray(t.aggregate) && !omitKeys(t, ['aggregate', 'groupby'])) {
+    const measuresOk = t.aggregate.every(
+      (m: any) =>
+        isPlainObject(m) &&
+        AGGREGATE_OPS.includes(m.op) &&
+        typeof m.as === 'string' &&
+        (m.field === undefined || typeof m.field === 'string') &&
+        !omitKeys(m, ['op', 'field', 'as'])
+    );
+    const groupbyOk =
+      t.groupby === undefined || (Array.isArray(t.groupby) && t.groupby.every((g: any) => typeof g === 'string'));
+
+    if (measuresOk && groupbyOk) {
+      return {
+        kind: 'aggregate',
+        groupby: t.groupby,
+        ops: t.aggregate.map((m: any) => m.op),
+        fields: t.aggregate.map((m: any) => m.field ?? ''),
+        as: t.aggregate.map((m: any) => m.as),
+      };
+    }
   }
 
-  if (channel.sort !== undefined) {
-    encoding.sort = channel.sort;
+  return { kind: 'custom', transform: t };
+}
+
+/**
+ * Parse layers buildSpec drew for annotations (a line or band followed by its label counts as one);
+ * null unless every layer matches
+ */
+function parseAnnotations(layers: any[], encodings: BuilderState['encodings']): ChartAnnotation[] | null {
+  const annotations: ChartAnnotation[] = [];
+  for (let i = 0; i < layers.length; ) {
+    const candidate = parseAnnotationLayer(layers[i]);
+    if (!candidate) return null;
+
+    const label = candidate.kind !== 'text' ? layers[i + 1]?.encoding?.text?.value : undefined;
+    const labelled = typeof label === 'string' ? { ...candidate, text: label } : null;
+    if (labelled && isDeepEqual(buildAnnotationLayers(labelled, encodings), layers.slice(i, i + 2))) {
+      annotations.push(labelled);
+      i += 2;
+    } else if (isDeepEqual(buildAnnotationLayers(candidate, encodings), [layers[i]])) {
+      annotations.push(candidate);
+      i += 1;
+    } else {
+      return null;
+    }
   }
+  return annotations;
+}
 
-  if (channel.scale) {
-    encoding.scale = {
-      domain: channel.scale.domain,
-      range: channel.scale.range,
-      scheme: channel.scale.scheme,
-      reverse: channel.scale.reverse,
-      zero: channel.scale.zero,
-    };
+/**
+ * Read an annotation from the layer that draws it; parseAnnotations confirms it by rebuilding the layer
+ */
+function parseAnnotationLayer(layer: any): ChartAnnotation | null {
+  const mark = layer?.mark;
+  const encoding = layer?.encoding;
+  if (!isPlainObject(mark) || !isPlainObject(encoding)) return null;
+
+  const axis = encoding.y ? 'y' : 'x';
+  const position = encoding[axis];
+  switch (mark.type) {
+    case 'text':
+      return typeof encoding.text?.value === 'string'
+        ? {
+            kind: 'text',
+            x: parseAnnotationValue(encoding.x),
+            y: parseAnnotationValue(encoding.y),
+            text: encoding.text.value,
+            color: mark.color,
+          }
+        : null;
+    case 'rect':
+      return {
+        kind: 'band',
+        axis,
+        start: parseAnnotationValue(position),
+        end: parseAnnotationValue(encoding[`${axis}2`]),
+        color: mark.color,
+      };
+    case 'rule': {
+      if (position?.aggregate !== undefined && !ANNOTATION_AGGREGATES.includes(position.aggregate)) return null;
+      return {
+        kind: 'line',
+        axis,
+        ...(position?.aggregate ? { aggregate: position.aggregate } : { value: parseAnnotationValue(position) }),
+        color: mark.color,
+        dashed: mark.strokeDash ? true : undefined,
+      };
+    }
   }
+  return null;
+}
 
-  if (channel.axis) {
-    encoding.axis = {
-      title: channel.axis.title,
-      format: channel.axis.format,
-      grid: channel.axis.grid,
-      labelAngle: channel.axis.labelAngle,
-      labelFontSize: channel.axis.labelFontSize,
-      titleFontSize: channel.axis.titleFontSize,
-    };
+/**
+ * Data value of an annotation position (`datum`, or a date buildSpec wrapped in toDate)
+ */
+function parseAnnotationValue(def: any): number | string | undefined {
+  if (typeof def?.datum === 'number' || typeof def?.datum === 'string') return def.datum;
+  const date = typeof def?.datum?.expr === 'string' ? def.datum.expr.match(/^toDate\(("(?:[^"\\]|\\.)*")\)$/) : null;
+  return date ? JSON.parse(date[1]) : undefined;
+}
+
+/**
+ * Parse one of the extra layers of a layered spec; unmodeled keys, options and channels are returned as leftover
+ */
+function parseLayer(layer: any): { layer: ChartLayer; leftover?: Record<string, any> } {
+  const { config, leftover: markLeftover } = parseMark(layer.mark);
+  const stackChannel = parseStacking(config, layer.encoding);
+  const parsed: ChartLayer = { mark: config, encodings: {} };
+  const encodingLeftover = parseEncodings(layer.encoding, LAYER_CHANNELS, parsed.encodings, stackChannel);
+
+  const leftover: Record<string, any> = omitKeys(layer, ['mark', 'encoding']) ?? {};
+  if (markLeftover) leftover.mark = markLeftover;
+  if (encodingLeftover) leftover.encoding = encodingLeftover;
+
+  return { layer: parsed, leftover: Object.keys(leftover).length > 0 ? leftover : undefined };
+}
+
+/**
+ * Parse a single encoding channel; options the builder doesn't model are returned as leftover
+ */
+function parseEncodingChannel(
+  channel: any,
+  allowConditions = false
+): { config: EncodingConfig; leftover?: Record<string, any> } {
+  const config: any = {};
+  const leftover: Record<string, any> = omitKeys(channel, CHANNEL_KEYS) ?? {};
+
+  const conditions = allowConditions && channel.condition !== undefined ? parseConditions(channel.condition) : null;
+  if (conditions) {
+    config.conditions = conditions;
+    delete leftover.condition;
   }
 
-  if (channel.legend) {
-    encoding.legend = {
-      title: channel.legend.title,
-      orient: channel.legend.orient,
-      labelFontSize: channel.legend.labelFontSize,
-      titleFontSize: channel.legend.titleFontSize,
-    };
+  for (const key of ['field', 'type', 'aggregate', 'bin', 'timeUnit', 'sort', 'columns']) {
+    if (channel[key] !== undefined) {
+      config[key] = channel[key];
+    }
   }
 
-  return encoding;
+  // Scale, axis, legend and header: known options are editable, the rest passes through
+  for (const [key, known] of Object.entries(CHANNEL_OPTION_KEYS)) {
+    if (channel[key] === undefined) continue;
+    if (!isPlainObject(channel[key])) {
+      leftover[key] = channel[key]; // e.g. `axis: null` to hide the axis
+      continue;
+    }
+    config[key] = Object.fromEntries(known.map((option) => [option, channel[key][option]]));
+    const extra = omitKeys(channel[key], known);
+    if (extra) leftover[key] = extra;
+  }
+
+  return { config, leftover: Object.keys(leftover).length > 0 ? leftover : undefined };
+}
+
+/**
+ * The keys of `obj` other than `keys`, or undefined when there are none
+ */
+function omitKeys(obj: Record<string, any>, keys: readonly string[]): Record<string, any> | undefined {
+  const rest = Object.fromEntries(Object.entries(obj).filter(([key]) => !keys.includes(key)));
+  return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+/**
+ * Structural equality for JSON values, ignoring key order and undefined properties
+ */
+function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => isDeepEqual(v, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keysA = Object.keys(a).filter((key) => a[key] !== undefined);
+  const keysB = Object.keys(b).filter((key) => b[key] !== undefined);
+  return keysA.length === keysB.length && keysA.every((key) => isDeepEqual(a[key], b[key]));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPadding(value: any): value is BuilderState['padding'] {
+  if (typeof value === 'number') return true;
+  return (
+    isPlainObject(value) &&
+    Object.entries(value).every(([key, v]) => ['top', 'bottom', 'left', 'right'].includes(key) && typeof v === 'number')
+  );
 }
@@ -0,0 +1,276 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import type { VisualizationSpec } from 'vega-embed';
+import type { DataField, FieldType, ValidationError, ValidationResult } from '@/types';
+import { getFieldType } from '@/utils/fieldInference';
+
+// Aggregates that only make sense on numbers (min/max also work on dates)
+const NUMERIC_AGGREGATES = new Set(['sum', 'mean', 'average', 'median', 'variance', 'variancep', 'stdev', 'stdevp', 'stderr', 'q1', 'q3', 'ci0', 'ci1', 'product']);
+const ORDERED_AGGREGATES = new Set(['min', 'max']);
+
+// Preferred explanation when competing schema branches fail equally badly
+const KEYWORD_PRIORITY = ['enum', 'required', 'additionalProperties', 'type'];
+
+const MAX_SCHEMA_ERRORS = 20;
+
+let validatorPromise: Promise<ValidateFunction> | null = null;
+
+/**
+ * Compile the Vega-Lite JSON schema once, on first use
+ * (the schema is large, so it's loaded as a separate chunk)
+ */
+function getSchemaValidator(): Promise<ValidateFunction> {
+  if (!validatorPromise) {
+    validatorPromise = import('vega-lite/build/vega-lite-schema.json').then((schema) => {
+      const ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false, verbose: true });
+      return ajv.compile((schema as any).default ?? schema);
+    });
+  }
+  return validatorPromise;
+}
+
+/**
+ * Validate a spec against the Vega-Lite schema plus semantic rules against the data fields
+ */
+export async function validateSpec(spec: VisualizationSpec, dataFields: DataField[]): Promise<ValidationResult> {
+  const issues = [...(await validateSchema(spec)), ...validateSemantics(spec, dataFields)];
+  return toResult(issues);
+}
+
+/**
+ * One-line summary of validation errors for status messages (the first three, then a count)
+ */
+export function describeValidationErrors(errors: ValidationError[]): string {
+  const shown = errors.slice(0, 3).map((e) => `${e.path}: ${e.message}`);
+  return errors.length > 3 ? `${shown.join('; ')} (+${errors.length - 3} more)` : shown.join('; ');
+}
+
+/**
+ * Validate a spec against the Vega-Lite JSON schema only
+ */
+export async function validateSchema(spec: VisualizationSpec): Promise<ValidationError[]> {
+  const validate = await getSchemaValidator();
+  if (validate(spec)) {
+    return [];
+  }
+  return summarizeSchemaErrors(validate.errors ?? []);
+}
+
+/**
+ * Check that encodings reference known fields with compatible aggregates and time units
+ */
+export function validateSemantics(spec: VisualizationSpec, dataFields: DataField[]): ValidationError[] {
+  // Without data there is nothing to check fields against
+  if (dataFields.length === 0) return [];
+
+  const issues: ValidationError[] = [];
+  const fieldTypes = new Map(dataFields.map((f) => [f.name, getFieldType(f)]));
+
+  const visitView = (view: any, path: string, derived: Set<string>) => {
+    if (!view || typeof view !== 'object') return;
+
+    // Fields created by transforms at this level are visible to this view and its children
+    const scope = new Set(derived);
+    collectDerivedFields(view.transform, scope);
+
+    if (view.encoding && typeof view.encoding === 'object') {
+      for (const [channel, def] of Object.entries<any>(view.encoding)) {
+        const defs = Array.isArray(def) ? def : [def];
+        defs.forEach((d, i) => {
+          const defPath = `${path}.encoding.${channel}${Array.isArray(def) ? `[${i}]` : ''}`;
+          checkFieldDef(d, defPath, fieldTypes, scope, issues);
+        });
+      }
+    }
+
+    if (Array.isArray(view.layer)) {
+      view.layer.forEach((child: any, i: number) => visitView(child, `${path}.layer[${i}]`, scope));
+    }
+    if (view.spec) {
+      visitView(view.spec, `${path}.spec`, scope);
+    }
+    for (const key of ['hconcat', 'vconcat', 'concat']) {
+      if (Array.isArray(view[key])) {
+        view[key].forEach((child: any, i: number) => visitView(child, `${path}.${key}[${i}]`, scope));
+      }
+    }
+  };
+
+  visitView(spec, '$', new Set());
+  return issues;
+}
+
+/**
+ * Split issues into errors and warnings
+ */
+export function toResult(issues: ValidationError[]): ValidationResult {
+  const errors = issues.filter((e) => e.severity === 'error');
+  const warnings = issues.filter((e) => e.severity === 'warning');
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+function checkFieldDef(
+  def: any,
+  path: string,
+  fieldTypes: Map<string, FieldType>,
+  derived: Set<string>,
+  issues: ValidationError[]
+) {
+  if (!def || typeof def !== 'object') return;
+
+  // Conditional definitions may carry their own field
+  if (def.condition && !Array.isArray(def.condition)) {
+    checkFieldDef(def.condition, `${path}.condition`, fieldTypes, derived, issues);
+  }
+
+  // Skip repeat references ({ repeat: 'row' }) and datum/value definitions
+  if (typeof def.field !== 'string') return;
+
+  const field = resolveFieldName(def.field, fieldTypes, derived);
+  if (field === null) {
+    issues.push({
+      path: `${path}.field`,
+      message: `Field "${def.field}" does not exist in the data`,
+      severity: 'error',
+    });
+    return;
+  }
+
+  // Derived fields have no known type, so type rules only apply to source fields
+  const dataType = fieldTypes.get(field);
+  if (!dataType) return;
+
+  const aggregate = typeof def.aggregate === 'string' ? def.aggregate : undefined;
+  if (aggregate && NUMERIC_AGGREGATES.has(aggregate) && dataType !== 'quantitative') {
+    issues.push({
+      path: `${path}.aggregate`,
+      message: `Aggregate "${aggregate}" requires a quantitative field, but "${field}" is ${dataType}`,
+      severity: 'error',
+    });
+  } else if (aggregate && ORDERED_AGGREGATES.has(aggregate) && dataType !== 'quantitative' && dataType !== 'temporal') {
+    issues.push({
+      path: `${path}.aggregate`,
+      message: `Aggregate "${aggregate}" requires a quantitative or temporal field, but "${field}" is ${dataType}`,
+      severity: 'error',
+    });
+  }
+
+  if (def.timeUnit && dataType !== 'temporal') {
+    issues.push({
+      path: `${path}.timeUnit`,
+      message: `Time unit can only be applied to temporal fields, but "${field}" is ${dataType}`,
+      severity: 'error',
+    });
+  }
+}
+
+/**
+ * Resolve a (possibly nested, e.g. "a.b") field reference; null when unknown
+ */
+function resolveFieldName(
+  name: string,
+  fieldTypes: Map<string, FieldType>,
+  derived: Set<string>
+): string | null {
+  if (fieldTypes.has(name) || derived.has(name)) return name;
+  const root = name.split('.')[0];
+  if (root !== name && (fieldTypes.has(root) || derived.has(root))) return root;
+  return null;
+}
+
+/**
+ * Collect every output name (`as`) produced by a transform array
+ */
+function collectDerivedFields(transforms: any, into: Set<string>) {
+  if (!Array.isArray(transforms)) return;
+
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node.as === 'string') into.add(node.as);
+    if (Array.isArray(node.as)) node.as.forEach((a: any) => typeof a === 'string' && into.add(a));
+    Object.values(node).forEach(visit);
+  };
+
+  visit(transforms);
+}
+
+/**
+ * Turn Ajv's raw anyOf noise into a short list of actionable errors
+ */
+function summarizeSchemaErrors(errors: ErrorObject[]): ValidationError[] {
+  const relevant = errors.filter((e) => !['anyOf', 'oneOf', 'if', 'not'].includes(e.keyword));
+
+  // Keep only the deepest errors: a failure at /encoding/x/type explains the one at /encoding/x
+  const deepest = relevant.filter(
+    (e) => !relevant.some((other) => other.instancePath.startsWith(`${e.instancePath}/`))
+  );
+
+  // Each anyOf branch reports its own errors; at each location keep the branch that came closest to matching
+  const byPath = new Map<string, ErrorObject[]>();
+  for (const e of deepest) {
+    byPath.set(e.instancePath, [...(byPath.get(e.instancePath) ?? []), e]);
+  }
+
+  const result: ValidationError[] = [];
+  for (const [pointer, pathErrors] of byPath) {
+    const branches = new Map<unknown, ErrorObject[]>();
+    for (const e of pathErrors) {
+      branches.set(e.parentSchema, [...(branches.get(e.parentSchema) ?? []), e]);
+    }
+
+    const best = Array.from(branches.values()).sort(
+      (a, b) => a.length - b.length || keywordRank(a) - keywordRank(b)
+    )[0];
+
+    const seen = new Set<string>();
+    for (const e of best) {
+      const message = describeSchemaError(e);
+      if (seen.has(message)) continue;
+      seen.add(message);
+      result.push({ path: pointerToPath(pointer), message, severity: 'error' });
+    }
+  }
+
+  return result.slice(0, MAX_SCHEMA_ERRORS);
+}
+
+function keywordRank(errors: ErrorObject[]): number {
+  return Math.min(
+    ...errors.map((e) => {
+      const rank = KEYWORD_PRIORITY.indexOf(e.keyword);
+      return rank === -1 ? KEYWORD_PRIORITY.length : rank;
+    })
+  );
+}
+
+function describeSchemaError(e: ErrorObject): string {
+  const params = e.params as any;
+  switch (e.keyword) {
+    case 'additionalProperties':
+      return `Unknown property "${params.additionalProperty}"`;
+    case 'enum': {
+      const allowed: any[] = params.allowedValues ?? [];
+      const list = allowed.slice(0, 8).map((v) => JSON.stringify(v)).join(', ');
+      return `Must be one of ${list}${allowed.length > 8 ? ', ...' : ''}`;
+    }
+    case 'required':
+      return `Missing required property "${params.missingProperty}"`;
+    default:
+      return e.message ? e.message.charAt(0).toUpperCase() + e.message.slice(1) : 'Invalid value';
+  }
+}
+
+/**
+ * Convert a JSON pointer (/layer/0/mark) to a JSON path ($.layer[0].mark)
+ */
+function pointerToPath(pointer: string): string {
+  if (!pointer) return '$';
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((seg) => seg.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((acc, seg) => (/^\d+$/.test(seg) ? `${acc}[${seg}]` : `${acc}.${seg}`), '$');
+}
@@ -0,0 +1,269 @@
+import type { BuilderState, ChartTemplate, DataField, EncodingConfig, FeatureFlags, TemplateSlot } from '@/types';
+import { findDisallowedSpecMarks, findDisallowedSpecTransforms } from '@/utils/featureFlags';
+import { getFieldType } from '@/utils/fieldInference';
+import { buildSpec, getDefaultBuilderState } from '@/utils/specBuilder';
+
+/**
+ * Built-in gallery; hosts add their own through VegaWidgetConfig.templates
+ */
+export const BUILT_IN_TEMPLATES: ChartTemplate[] = [
+  {
+    id: 'grouped-bar',
+    name: 'Grouped bars',
+    description: 'Compare a measure across categories, one bar per series side by side',
+    slots: [
+      { name: 'category', label: 'Category', types: ['nominal', 'ordinal'] },
+      { name: 'measure', label: 'Measure', types: ['quantitative'] },
+      { name: 'series', label: 'Series', types: ['nominal', 'ordinal'], maxCategories: 12 },
+    ],
+    build: ({ category, measure, series }) => ({
+      mark: { type: 'bar', stacked: null },
+      encodings: {
+        x: { field: category },
+        y: { field: measure, aggregate: 'sum' },
+        color: { field: series },
+      },
+      // Vega-Lite offsets bars within each category through xOffset, which the builder doesn't model
+      overrides: { encoding: { xOffset: { field: series } } },
+    }),
+  },
+  {
+    id: 'stacked-area',
+    name: 'Stacked area over time',
+    description: 'How each series contributes to a total over time',
+    slots: [
+      { name: 'time', label: 'Time', types: ['temporal'] },
+      { name: 'measure', label: 'Measure', types: ['quantitative'] },
+      { name: 'series', label: 'Series', types: ['nominal', 'ordinal'], maxCategories: 12 },
+    ],
+    build: ({ time, measure, series }) => ({
+      mark: { type: 'area', stacked: 'zero' },
+      encodings: {
+        x: { field: time, timeUnit: 'yearmonth' },
+        y: { field: measure, aggregate: 'sum' },
+        color: { field: series },
+      },
+    }),
+  },
+  {
+    id: 'line-over-time',
+    name: 'Trend over time',
+    description: 'A measure over time, optionally one line per series',
+    slots: [
+      { name: 'time', label: 'Time', types: ['temporal'] },
+      { name: 'measure', label: 'Measure', types: ['quantitative'] },
+      { name: 'series', label: 'Series', types: ['nominal', 'ordinal'], optional: true, maxCategories: 12 },
+    ],
+    build: ({ time, measure, series }) => ({
+      mark: { type: 'line', point: true },
+      encodings: {
+        x: { field: time, timeUnit: 'yearmonth' },
+        y: { field: measure, aggregate: 'sum' },
+        ...(series && { color: { field: series } }),
+      },
+    }),
+  },
+  {
+    id: 'scatter-trend',
+    name: 'Scatter with trendline',
+    description: 'Relationship between two measures with a linear fit',
+    slots: [
+      { name: 'x', label: 'X measure', types: ['quantitative'] },
+      { name: 'y', label: 'Y measure', types: ['quantitative'] },
+      { name: 'series', label: 'Color', types: ['nominal', 'ordinal'], optional: true, maxCategories: 12 },
+    ],
+    build: ({ x, y, series }) => ({
+      mark: { type: 'point', opacity: 0.7 },
+      encodings: {
+        x: { field: x },
+        y: { field: y },
+        ...(series && { color: { field: series } }),
+      },
+      layers: [{ mark: { type: 'line', strokeWidth: 2 }, encodings: { y: { field: y } } }],
+      // The fit is a regression transform on the line layer
+      overrides: { layer: [{}, { transform: [{ regression: y, on: x }], mark: { color: '#333333' } }] },
+    }),
+  },
+  {
+    id: 'heatmap',
+    name: 'Heatmap',
+    description: 'A measure across two categorical dimensions',
+    slots: [
+      { name: 'columns', label: 'Columns', types: ['ordinal', 'nominal', 'temporal'] },
+      { name: 'rows', label: 'Rows', types: ['nominal', 'ordinal'] },
+      { name: 'measure', label: 'Measure', types: ['quantitative'] },
+    ],
+    build: ({ columns, rows, measure }) => ({
+      mark: { type: 'rect' },
+      encodings: {
+        x: { field: columns, type: 'ordinal' },
+        y: { field: rows },
+        color: { field: measure, aggregate: 'mean', scale: { scheme: 'blues' } },
+      },
+    }),
+  },
+  {
+    id: 'kpi-bullet',
+    name: 'KPI bullet',
+    description: 'Actual against target for each category',
+    slots: [
+      { name: 'category', label: 'Category', types: ['nominal', 'ordinal'] },
+      { name: 'actual', label: 'Actual', types: ['quantitative'] },
+      { name: 'target', label: 'Target', types: ['quantitative'] },
+    ],
+    build: ({ category, actual, target }) => ({
+      mark: { type: 'bar', stacked: null },
+      encodings: {
+        x: { field: category },
+        y: { field: actual, aggregate: 'sum' },
+      },
+      layers: [{ mark: { type: 'tick' }, encodings: { y: { field: target, aggregate: 'sum' } } }],
+      overrides: { layer: [{}, { mark: { color: '#333333', thickness: 3 } }] },
+    }),
+  },
+  {
+    id: 'share-donut',
+    name: 'Share of total',
+    description: "Each category's share of a measure as a donut",
+    slots: [
+      { name: 'category', label: 'Category', types: ['nominal', 'ordinal'], maxCategories: 8 },
+      { name: 'measure', label: 'Measure', types: ['quantitative'] },
+    ],
+    build: ({ category, measure }) => ({
+      mark: { type: 'arc', innerRadius: 50 },
+      encodings: {
+        theta: { field: measure, aggregate: 'sum' },
+        color: { field: category },
+      },
+    }),
+  },
+  {
+    id: 'histogram',
+    name: 'Histogram',
+    description: 'Distribution of a measure',
+    slots: [{ name: 'measure', label: 'Measure', types: ['quantitative'] }],
+    build: ({ measure }) => ({
+      mark: { type: 'bar', stacked: null },
+      encodings: {
+        x: { field: measure, bin: { maxbins: 20 } },
+        y: { field: measure, type: 'quantitative', aggregate: 'count' },
+      },
+    }),
+  },
+];
+
+/**
+ * Built-in templates followed by the host's; a host template with a built-in's id replaces it
+ */
+export function getTemplates(hostTemplates: ChartTemplate[] = []): ChartTemplate[] {
+  const hostIds = new Set(hostTemplates.map((t) => t.id));
+  return [...BUILT_IN_TEMPLATES.filter((t) => !hostIds.has(t.id)), ...hostTemplates];
+}
+
+/**
+ * Map each slot to a data field: the preferred field when it still fits, otherwise the first unused field
+ * of the slot's best type. Slots nothing fits, or preferred as '' (cleared), are left out.
+ */
+export function matchTemplateSlots(
+  template: ChartTemplate,
+  dataFields: DataField[],
+  preferred: Record<string, string> = {}
+): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+
+  for (const slot of template.slots) {
+    if (preferred[slot.name] === '') continue;
+    const fits = (f: DataField) => !used.has(f.name) && fitsSlot(f, slot);
+    const pinned = dataFields.find((f) => f.name === preferred[slot.name] && fits(f));
+    const match =
+      pinned ?? slot.types.map((type) => dataFields.find((f) => getFieldType(f) === type && fits(f))).find(Boolean);
+    if (match) {
+      mapping[slot.name] = match.name;
+      used.add(match.name);
+    }
+  }
+
+  return mapping;
+}
+
+export function fitsSlot(field: DataField, slot: TemplateSlot): boolean {
+  if (!slot.types.includes(getFieldType(field))) return false;
+  const unique = field.stats?.unique;
+  return slot.maxCategories === undefined || unique === undefined || unique <= slot.maxCategories;
+}
+
+/**
+ * Required slots the mapping leaves empty
+ */
+export function missingTemplateSlots(template: ChartTemplate, mapping: Record<string, string>): TemplateSlot[] {
+  return template.slots.filter((slot) => !slot.optional && !mapping[slot.name]);
+}
+
+/**
+ * Builder state for a template; throws when the chart uses marks or transforms the host has disallowed
+ */
+export function applyTemplate(
+  template: ChartTemplate,
+  mapping: Record<string, string>,
+  dataFields: DataField[],
+  features?: FeatureFlags
+): Partial<BuilderState> {
+  const disallowed = features ? findDisallowedTemplateParts(template, mapping, dataFields, features) : [];
+  if (disallowed.length > 0) {
+    throw new Error(`The "${template.name}" template uses ${disallowed.join(', ')}, which this widget doesn't allow`);
+  }
+  return toChartState(template.build(mapping), dataFields);
+}
+
+/**
+ * Marks and transform kinds of a template's chart (layers and passthrough overrides included) that the
+ * host has disallowed, e.g. ['tick marks']
+ */
+export function findDisallowedTemplateParts(
+  template: ChartTemplate,
+  mapping: Record<string, string>,
+  dataFields: DataField[],
+  features: FeatureFlags
+): string[] {
+  if (!features.allowedMarks && !features.allowedTransforms) return [];
+  const chart = toChartState(template.build(mapping), dataFields);
+  const spec = buildSpec({ ...getDefaultBuilderState(), ...chart }, dataFields);
+  return [
+    ...findDisallowedSpecMarks(spec, features).map((mark) => `${mark} marks`),
+    ...findDisallowedSpecTransforms(spec, features).map((kind) => `${kind} transforms`),
+  ];
+}
+
+/**
+ * Builder state that replaces the current chart with `chart`. Everything describing the chart itself is reset
+ * (so nothing from the previous chart lingers); title, size and other styling are kept. Channels without a
+ * type get the field's type.
+ */
+export function toChartState(chart: Partial<BuilderState>, dataFields: DataField[]): Partial<BuilderState> {
+  const withTypes = <T extends Record<string, any>>(encodings: T): T => {
+    const result: Record<string, any> = {};
+    for (const [channel, config] of Object.entries(encodings)) {
+      const field = (config as EncodingConfig | undefined)?.field;
+      const info = field ? dataFields.find((f) => f.name === field) : undefined;
+      result[channel] = info && !config.type ? { ...config, type: getFieldType(info) } : config;
+    }
+    return result as T;
+  };
+
+  return {
+    mark: { type: 'bar', stacked: null },
+    transforms: [],
+    layers: [],
+    params: [],
+    annotations: [],
+    resolveX: undefined,
+    resolveY: undefined,
+    overrides: undefined,
+    ...chart,
+    encodings: withTypes({ tooltip: 'auto' as const, ...chart.encodings }),
+    ...(chart.layers && {
+      layers: chart.layers.map((layer) => ({ ...layer, encodings: withTypes(layer.encodings) })),
+    }),
+  };
+}
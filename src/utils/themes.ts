@@ -0,0 +1,123 @@
+import type { ChartTheme } from '@/types';
+
+// Okabe-Ito: distinguishable with the common colour vision deficiencies
+const HIGH_CONTRAST_CATEGORY = ['#000000', '#e69f00', '#0072b2', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#f0e442'];
+
+/**
+ * Built-in themes; hosts add brand themes through VegaWidgetConfig.themes
+ */
+export const BUILT_IN_THEMES: ChartTheme[] = [
+  {
+    id: 'light',
+    name: 'Light',
+    config: {
+      axis: { labelFontSize: 11, titleFontSize: 12 },
+    },
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    config: {
+      background: '#1f2937',
+      view: { stroke: '#4b5563' },
+      title: { color: '#f9fafb', subtitleColor: '#d1d5db' },
+      axis: {
+        labelFontSize: 11,
+        titleFontSize: 12,
+        labelColor: '#d1d5db',
+        titleColor: '#f3f4f6',
+        domainColor: '#9ca3af',
+        tickColor: '#9ca3af',
+        gridColor: '#374151',
+      },
+      legend: { labelColor: '#d1d5db', titleColor: '#f3f4f6' },
+      header: { labelColor: '#d1d5db', titleColor: '#f3f4f6' },
+      range: {
+        category: ['#60a5fa', '#f59e0b', '#34d399', '#f87171', '#a78bfa', '#22d3ee', '#fb923c', '#e879f9'],
+      },
+      text: { color: '#f3f4f6' },
+    },
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    config: {
+      background: '#ffffff',
+      font: 'Arial, Helvetica, sans-serif',
+      view: { stroke: '#000000' },
+      title: { fontSize: 18, color: '#000000', subtitleColor: '#000000' },
+      axis: {
+        labelFontSize: 14,
+        titleFontSize: 15,
+        labelColor: '#000000',
+        titleColor: '#000000',
+        domainColor: '#000000',
+        domainWidth: 2,
+        tickColor: '#000000',
+        tickWidth: 2,
+        gridColor: '#9ca3af',
+      },
+      legend: { labelFontSize: 14, titleFontSize: 15, labelColor: '#000000', titleColor: '#000000' },
+      range: { category: HIGH_CONTRAST_CATEGORY },
+      line: { strokeWidth: 3 },
+      point: { size: 80, filled: true },
+    },
+  },
+  {
+    id: 'print',
+    name: 'Print',
+    config: {
+      background: '#ffffff',
+      font: 'Georgia, "Times New Roman", serif',
+      view: { stroke: null },
+      title: { fontSize: 14, color: '#000000', anchor: 'start' },
+      axis: {
+        labelFontSize: 10,
+        titleFontSize: 11,
+        labelColor: '#000000',
+        titleColor: '#000000',
+        domainColor: '#000000',
+        tickColor: '#000000',
+        grid: false,
+      },
+      axisY: { grid: true, gridColor: '#e5e7eb', gridDash: [2, 2] },
+      legend: { labelColor: '#000000', titleColor: '#000000' },
+      range: {
+        category: ['#1f3b73', '#b03a2e', '#1e8449', '#7d3c98', '#b9770e', '#5d6d7e', '#117a65', '#873600'],
+      },
+    },
+  },
+];
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+/**
+ * Built-in themes followed by the host's; a host theme with a built-in's id replaces it
+ */
+export function getThemes(hostThemes: ChartTheme[] = []): ChartTheme[] {
+  const hostIds = new Set(hostThemes.map((t) => t.id));
+  return [...BUILT_IN_THEMES.filter((t) => !hostIds.has(t.id)), ...hostThemes];
+}
+
+/**
+ * Theme whose config matches exactly (key order aside), if any
+ */
+export function findTheme(config: Record<string, any>, themes: ChartTheme[]): ChartTheme | undefined {
+  const key = canonicalJSON(config);
+  return themes.find((theme) => canonicalJSON(theme.config) === key);
+}
+
+/**
+ * Theme for a loaded spec's config: the matching built-in theme, or a custom one holding the config as is
+ */
+export function themeFromConfig(config: Record<string, any>): ChartTheme {
+  return findTheme(config, BUILT_IN_THEMES) ?? { id: 'custom', name: 'Custom', config };
+}
+
+function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+      : v
+  );
+}
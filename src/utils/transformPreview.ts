@@ -0,0 +1,119 @@
+import { compile } from 'vega-lite';
+import { View, parse } from 'vega';
+import type { ChartTransform, DataField } from '@/types';
+import { buildFormatTransforms, buildTransforms } from '@/utils/specBuilder';
+
+export interface TransformStepPreview {
+  count: number | null; // null when the step (or an earlier one) failed
+  error?: string;
+}
+
+// Sent to the field stats worker, which also runs previews so large datasets don't block the UI
+export interface TransformPreviewRequest {
+  type: 'transformPreview';
+  rows: Record<string, any>[];
+  transforms: ChartTransform[];
+  fields: DataField[];
+}
+
+export type TransformPreviewMessage = { type: 'previews'; previews: TransformStepPreview[] } | { type: 'error'; message: string };
+
+/**
+ * Preview the pipeline off the main thread, calling `onDone` with the row counts.
+ * Returns a function that cancels the run.
+ */
+export function computeTransformPreviews(
+  rows: Record<string, any>[],
+  transforms: ChartTransform[],
+  fields: DataField[],
+  onDone: (previews: TransformStepPreview[]) => void
+): () => void {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    previewTransformSteps(rows, transforms, fields).then((previews) => {
+      if (!cancelled) onDone(previews);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }
+
+  const worker = new Worker(new URL('../workers/fieldStats.worker.ts', import.meta.url), { type: 'module' });
+  const fail = (message: string) => onDone(transforms.map((_, i) => ({ count: null, error: i === 0 ? message : undefined })));
+
+  worker.onmessage = (event: MessageEvent<TransformPreviewMessage>) => {
+    worker.terminate();
+    const message = event.data;
+    if (message.type === 'previews') {
+      onDone(message.previews);
+    } else {
+      fail(message.message);
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    fail(event.message || 'Transform preview worker failed');
+  };
+
+  const request: TransformPreviewRequest = { type: 'transformPreview', rows, transforms, fields };
+  worker.postMessage(request);
+
+  return () => worker.terminate();
+}
+
+/**
+ * Run the transform pipeline through Vega and count the rows that survive each step
+ * (after the same field format conversions the chart applies)
+ */
+export async function previewTransformSteps(
+  rows: any[],
+  transforms: ChartTransform[],
+  fields: DataField[] = []
+): Promise<TransformStepPreview[]> {
+  // Deep clone data to avoid "object is not extensible" error
+  // (Zustand with Immer freezes objects, but Vega needs to add Symbol properties)
+  const values = JSON.parse(JSON.stringify(rows));
+  const formatTransforms = buildFormatTransforms(fields);
+  const previews: TransformStepPreview[] = [];
+  let failed = false;
+
+  for (let i = 0; i < transforms.length; i++) {
+    if (failed) {
+      previews.push({ count: null });
+      continue;
+    }
+
+    try {
+      const count = await countRows(values, [...formatTransforms, ...buildTransforms(transforms.slice(0, i + 1))]);
+      previews.push({ count });
+    } catch (err) {
+      failed = true;
+      previews.push({
+        count: null,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  return previews;
+}
+
+/**
+ * Compile a throwaway spec and read back the dataset feeding its mark
+ */
+async function countRows(values: any[], transform: any[]): Promise<number> {
+  const compiled = compile({
+    data: { values },
+    transform,
+    mark: 'point',
+  } as any).spec;
+
+  const view = new View(parse(compiled), { renderer: 'none' });
+  try {
+    await view.runAsync();
+    const dataName = (compiled.marks?.[0] as any)?.from?.data;
+    return dataName ? view.data(dataName).length : 0;
+  } finally {
+    view.finalize();
+  }
+}
@@ -0,0 +1,40 @@
+import { summarizeField } from '@/utils/fieldInference';
+import type { FieldStatsMessage, FieldStatsRequest } from '@/utils/fieldStatsClient';
+import type { TransformPreviewMessage, TransformPreviewRequest } from '@/utils/transformPreview';
+
+// Typed view of the worker global (the project's lib config is DOM, not WebWorker)
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<FieldStatsRequest | TransformPreviewRequest>) => {
+  if ('type' in event.data && event.data.type === 'transformPreview') {
+    previewTransforms(event.data);
+    return;
+  }
+
+  const { rows, fields } = event.data as FieldStatsRequest;
+  const post = (message: FieldStatsMessage) => ctx.postMessage(message);
+
+  try {
+    fields.forEach((name, i) => {
+      const field = summarizeField(name, rows.map((r) => r?.[name]));
+      post({ type: 'field', field, done: i + 1, total: fields.length });
+    });
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+/**
+ * Count the rows surviving each transform step (Vega is only loaded for preview jobs)
+ */
+async function previewTransforms({ rows, transforms, fields }: TransformPreviewRequest) {
+  const post = (message: TransformPreviewMessage) => ctx.postMessage(message);
+
+  try {
+    const { previewTransformSteps } = await import('@/utils/transformPreview');
+    post({ type: 'previews', previews: await previewTransformSteps(rows, transforms, fields) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}